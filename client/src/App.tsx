@@ -4,12 +4,16 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/Home";
+import PaletteAdmin from "@/pages/PaletteAdmin";
+import QuoteRequests from "@/pages/QuoteRequests";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/admin/palette" component={PaletteAdmin} />
+      <Route path="/admin/quotes" component={QuoteRequests} />
       <Route component={NotFound} />
     </Switch>
   );
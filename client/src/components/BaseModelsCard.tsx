@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PRICE_CURRENCY } from "@shared/pricing";
+import type { BaseModel, InsertBaseModel } from "@shared/schema";
+
+const PRICE_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+interface BaseModelsCardProps {
+  baseModels: BaseModel[];
+  isSaving?: boolean;
+  onSave?: (id: string | undefined, values: Partial<InsertBaseModel>) => void; // Adds without an id
+  onDelete?: (id: string) => void;
+}
+
+export default function BaseModelsCard({ baseModels, isSaving, onSave, onDelete }: BaseModelsCardProps) {
+  const [newName, setNewName] = useState("");
+  const [newPrice, setNewPrice] = useState("");
+  const canAdd = !!newName.trim() && PRICE_PATTERN.test(newPrice.trim()) && !isSaving;
+
+  return (
+    <Card className="p-4 space-y-4" data-testid="card-base-models">
+      <div>
+        <h2 className="font-medium">Base Models</h2>
+        <p className="text-xs text-muted-foreground">
+          Prices in {PRICE_CURRENCY} before finish surcharges. Area-weighted models share each surcharge between parts by their size.
+        </p>
+      </div>
+
+      {baseModels.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="w-36">Base Price</TableHead>
+              <TableHead className="w-32">Area-weighted</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {baseModels.map(model => (
+              <TableRow key={model.id} data-testid={`row-base-model-${model.id}`}>
+                <TableCell>
+                  <Input
+                    key={model.name}
+                    defaultValue={model.name}
+                    onBlur={(e) => {
+                      const name = e.target.value.trim();
+                      if (name && name !== model.name) onSave?.(model.id, { name });
+                    }}
+                    data-testid={`input-base-model-name-${model.id}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    key={model.basePrice}
+                    defaultValue={model.basePrice}
+                    inputMode="decimal"
+                    className="font-mono"
+                    onBlur={(e) => {
+                      const price = e.target.value.trim();
+                      if (!PRICE_PATTERN.test(price)) {
+                        e.target.value = model.basePrice;
+                      } else if (Number(price) !== Number(model.basePrice)) {
+                        onSave?.(model.id, { basePrice: price });
+                      }
+                    }}
+                    data-testid={`input-base-model-price-${model.id}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={model.areaWeighted}
+                    onCheckedChange={(areaWeighted) => onSave?.(model.id, { areaWeighted })}
+                    data-testid={`switch-base-model-weighted-${model.id}`}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      if (confirm(`Delete "${model.name}"? Projects using it will be priced on finishes only.`)) {
+                        onDelete?.(model.id);
+                      }
+                    }}
+                    data-testid={`button-delete-base-model-${model.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!canAdd) return;
+          onSave?.(undefined, { name: newName.trim(), basePrice: newPrice.trim() });
+          setNewName("");
+          setNewPrice("");
+        }}
+      >
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Model name..."
+          className="flex-1"
+          data-testid="input-new-base-model-name"
+        />
+        <Input
+          value={newPrice}
+          onChange={(e) => setNewPrice(e.target.value)}
+          placeholder="Base price"
+          inputMode="decimal"
+          className="w-36 font-mono"
+          data-testid="input-new-base-model-price"
+        />
+        <Button type="submit" disabled={!canAdd} data-testid="button-add-base-model">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Model
+        </Button>
+      </form>
+    </Card>
+  );
+}
@@ -1,44 +1,139 @@
 import { useEffect, useRef, useState } from "react";
-import { ZoomIn, ZoomOut, RotateCcw, Download, Loader2 } from "lucide-react";
+import { ZoomIn, ZoomOut, RotateCcw, Download, Loader2, MousePointerClick, SquareDashedMousePointer, Undo2, Redo2, Pipette, SquareSplitHorizontal, Columns2, Eye } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Slider } from "@/components/ui/slider";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { renderTintedLayers, sampleImageColor } from "@/lib/masks";
+import { useDesignExport } from "@/hooks/use-design-export";
+import { DEFAULT_EXPORT_SETTINGS, type ExportLayout, type ExportSettings } from "@/lib/export";
+import { rgbToHex } from "@shared/color";
+import type { BoundingBox, MaskPoint, SegmentationPoint } from "@shared/schema";
 
 interface CanvasWorkspaceProps {
   imageUrl?: string;
-  selectedColor?: string;
   imageId?: string;
+  masks?: ColoredMask[];
+  selectedMaskId?: string | null;
+  zoom?: number;
+  onZoomChange?: (zoom: number) => void;
+  onMaskSegmented?: (segmentation: MaskSegmentation) => void;
+  onMaskRefined?: (id: string, segmentation: MaskSegmentation) => void;
+  onReset?: () => void;
+  onColorSampled?: (hex: string, point: MaskPoint) => void; // Eyedropper pick from the base image
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  exportSettings?: ExportSettings; // File name, format and resolution for the download menu
   className?: string;
 }
 
-interface ColoredMask {
-  id: string;
+// Geometry returned by /api/segment for one part
+export interface MaskSegmentation {
+  maskId?: string; // Server-side segmentation mask id, when the image is saved
   maskUrl: string;
-  color: string;
-  opacity: number;
   clickX: number;
   clickY: number;
+  points: SegmentationPoint[];
+  box?: BoundingBox;
+  boundingBox: BoundingBox;
+  area: number;
+  centroid: MaskPoint;
+}
+
+export interface ColoredMask extends MaskSegmentation {
+  id: string;
+  name: string;
+  colorApplicationId?: string; // Saved color for the mask, when restored from a project
+  color: string;
+  colorId?: string; // Palette entry the color came from
+  opacity: number;
+  blendMode: string;
+  visible: boolean;
+  textureUrl?: string; // Grain of wood/stone finishes, see ColorItem.textureUrl
+  textureScale?: number;
+  textureRotation?: number; // Degrees
+}
+
+// Everything needed to put the editor back the way it was
+export interface CanvasSnapshot {
+  layers: ColoredMask[];
+  zoom: number; // Percent
+  selectedMaskId: string | null;
+}
+
+type SelectionTool = 'click' | 'box' | 'eyedropper';
+
+// Eyedropper averaging radius in original image pixels
+const SAMPLE_RADIUS = 4;
+
+// How the design is shown against the original photo
+type ViewMode = 'edit' | 'split' | 'side-by-side';
+
+// Hold to hide the colored parts, as in photo editors
+const SHOW_ORIGINAL_KEY = '\\';
+
+interface SegmentationPrompt {
+  points: SegmentationPoint[];
+  box?: BoundingBox;
+}
+
+function ComparisonLabel({ className, children }: { className?: string; children: React.ReactNode }) {
+  return (
+    <span className={cn("absolute top-2 rounded bg-black/60 px-2 py-0.5 text-xs font-medium text-white pointer-events-none", className)}>
+      {children}
+    </span>
+  );
 }
 
 export function CanvasWorkspace({ 
   imageUrl, 
-  selectedColor = "#FF0000",
   imageId,
+  masks = [],
+  selectedMaskId = null,
+  zoom = 100,
+  onZoomChange,
+  onMaskSegmented,
+  onMaskRefined,
+  onReset,
+  onColorSampled,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  exportSettings = DEFAULT_EXPORT_SETTINGS,
   className 
 }: CanvasWorkspaceProps) {
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const baseImageRef = useRef<HTMLImageElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [zoom, setZoom] = useState(100);
-  const [masks, setMasks] = useState<ColoredMask[]>([]);
+  const renderIdRef = useRef(0);
   const [isSegmenting, setIsSegmenting] = useState(false);
+  const [tool, setTool] = useState<SelectionTool>('click');
+  const [dragStart, setDragStart] = useState<MaskPoint | null>(null);
+  const [dragEnd, setDragEnd] = useState<MaskPoint | null>(null);
+  const [sample, setSample] = useState<{ point: MaskPoint; hex: string } | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('edit');
+  const [splitPosition, setSplitPosition] = useState(50); // Percent of the width showing the original
+  const [isDraggingSplit, setIsDraggingSplit] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
   const { toast } = useToast();
+  const { downloadDesign, isExporting } = useDesignExport();
+
+  const activeMask = masks.find(mask => mask.id === selectedMaskId);
 
   useEffect(() => {
+    setSample(null);
     if (imageUrl && baseImageRef.current) {
       const img = new Image();
       img.crossOrigin = "anonymous";
@@ -89,77 +184,121 @@ export function CanvasWorkspace({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    canvas.width = imageDimensions.width;
-    canvas.height = imageDimensions.height;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    masks.forEach(mask => {
-      const maskImg = new Image();
-      maskImg.crossOrigin = "anonymous";
-      maskImg.onload = () => {
-        ctx.save();
-        ctx.globalAlpha = mask.opacity;
-        ctx.globalCompositeOperation = 'multiply';
-        
-        ctx.fillStyle = mask.color;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        ctx.globalCompositeOperation = 'destination-in';
-        ctx.drawImage(maskImg, 0, 0, canvas.width, canvas.height);
-        
-        ctx.restore();
-      };
-      maskImg.src = mask.maskUrl;
-    });
+    // Masks load asynchronously; only the latest render may paint
+    const renderId = ++renderIdRef.current;
+    const scratch = document.createElement('canvas');
+    scratch.width = imageDimensions.width;
+    scratch.height = imageDimensions.height;
+    const scratchCtx = scratch.getContext('2d');
+    if (!scratchCtx) return;
+
+    renderTintedLayers(scratchCtx, baseImage, masks, scratch.width, scratch.height)
+      .then(() => {
+        if (renderId !== renderIdRef.current) return;
+        canvas.width = scratch.width;
+        canvas.height = scratch.height;
+        ctx.drawImage(scratch, 0, 0);
+      })
+      .catch(error => console.error('Failed to render parts:', error));
   };
 
   useEffect(() => {
     renderCanvas();
   }, [masks, imageDimensions, imageLoaded]);
 
-  const handleCanvasClick = async (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!imageUrl || isSegmenting) return;
-
-    const rect = canvasContainerRef.current?.getBoundingClientRect();
-    if (!rect) return;
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        onRedo?.();
+      } else {
+        onUndo?.();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
 
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === SHOW_ORIGINAL_KEY && !e.repeat && !isTyping(e.target)) setShowOriginal(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === SHOW_ORIGINAL_KEY) setShowOriginal(false);
+    };
+    const handleBlur = () => setShowOriginal(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Maps a pointer event on the (zoomed) image area to original image pixels
+  const toImagePoint = (e: React.MouseEvent<HTMLDivElement>): MaskPoint | null => {
+    const baseImage = baseImageRef.current;
+    if (!baseImage || !baseImage.naturalWidth) return null;
 
-    const scaleX = imageDimensions.width > 0 ? baseImageRef.current!.naturalWidth / imageDimensions.width : 1;
-    const scaleY = imageDimensions.height > 0 ? baseImageRef.current!.naturalHeight / imageDimensions.height : 1;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
 
-    const actualX = Math.round(x * scaleX);
-    const actualY = Math.round(y * scaleY);
+    return {
+      x: Math.round(Math.min(1, Math.max(0, x)) * (baseImage.naturalWidth - 1)),
+      y: Math.round(Math.min(1, Math.max(0, y)) * (baseImage.naturalHeight - 1))
+    };
+  };
 
+  const runSegmentation = async (prompt: SegmentationPrompt, refineTarget?: ColoredMask) => {
     setIsSegmenting(true);
 
     try {
       const response = await apiRequest('POST', `/api/segment`, {
         imageUrl,
-        clickX: actualX,
-        clickY: actualY,
-        imageId: imageId || undefined
+        points: prompt.points,
+        box: prompt.box,
+        imageId: imageId || undefined,
+        replaceMaskId: refineTarget?.maskId
       });
 
       const data = await response.json();
 
-      const newMask: ColoredMask = {
-        id: crypto.randomUUID(),
+      const segmented: MaskSegmentation = {
+        maskId: data.id,
         maskUrl: data.maskUrl,
-        color: selectedColor,
-        opacity: 0.7,
-        clickX: actualX,
-        clickY: actualY
+        clickX: data.clickX,
+        clickY: data.clickY,
+        points: data.points,
+        box: data.box,
+        boundingBox: data.boundingBox,
+        area: data.area,
+        centroid: data.centroid
       };
 
-      setMasks(prev => [...prev, newMask]);
+      if (refineTarget) {
+        onMaskRefined?.(refineTarget.id, segmented);
+      } else {
+        onMaskSegmented?.(segmented);
 
-      toast({
-        title: "Part detected!",
-        description: "Click detected furniture part. You can now change colors or click another part.",
-      });
+        toast({
+          title: "Part detected!",
+          description: "Shift-click to add to this part, Alt-click to exclude an area, or click another part.",
+        });
+      }
 
     } catch (error) {
       console.error('Segmentation error:', error);
@@ -173,83 +312,126 @@ export function CanvasWorkspace({
     }
   };
 
-  const handleZoomIn = () => {
-    setZoom(prev => Math.min(prev + 10, 200));
+  // Samples the photo itself, not the colored parts drawn over it
+  const handleSampleColor = (e: React.MouseEvent<HTMLDivElement>) => {
+    const baseImage = baseImageRef.current;
+    const point = toImagePoint(e);
+    if (!baseImage || !point) return;
+
+    const rgb = sampleImageColor(baseImage, point.x, point.y, SAMPLE_RADIUS);
+    if (!rgb) return;
+
+    const hex = rgbToHex(rgb);
+    setSample({ point, hex });
+    onColorSampled?.(hex, point);
   };
 
-  const handleZoomOut = () => {
-    setZoom(prev => Math.max(prev - 10, 50));
+  const moveSplit = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSplitPosition(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
   };
 
-  const handleReset = () => {
-    setZoom(100);
-    setMasks([]);
+  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // The split view uses the pointer for its slider
+    if (viewMode === 'split') return;
+    if (tool === 'eyedropper' && imageUrl) {
+      handleSampleColor(e);
+      return;
+    }
+    if (!imageUrl || isSegmenting || tool !== 'click') return;
+
+    const clicked = toImagePoint(e);
+    if (!clicked) return;
+
+    // Shift-click adds to the selected part, alt-click carves out of it
+    const refineTarget = (e.shiftKey || e.altKey) ? activeMask : undefined;
+    const point: SegmentationPoint = { ...clicked, label: e.altKey ? 0 : 1 };
+    const points = refineTarget ? [...refineTarget.points, point] : [point];
+
+    if (!points.some(p => p.label === 1) && !refineTarget?.box) return;
+
+    runSegmentation({ points, box: refineTarget?.box }, refineTarget);
   };
 
-  const handleDownload = () => {
-    const canvas = canvasRef.current;
-    const baseImage = baseImageRef.current;
-    if (!canvas || !baseImage) return;
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (viewMode === 'split') {
+      setIsDraggingSplit(true);
+      moveSplit(e);
+      return;
+    }
+    if (!imageUrl || isSegmenting || tool !== 'box') return;
+    const start = toImagePoint(e);
+    setDragStart(start);
+    setDragEnd(start);
+  };
 
-    const downloadCanvas = document.createElement('canvas');
-    downloadCanvas.width = baseImage.naturalWidth;
-    downloadCanvas.height = baseImage.naturalHeight;
-    const ctx = downloadCanvas.getContext('2d');
-    if (!ctx) return;
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isDraggingSplit) {
+      moveSplit(e);
+      return;
+    }
+    if (!dragStart) return;
+    setDragEnd(toImagePoint(e));
+  };
 
-    ctx.drawImage(baseImage, 0, 0);
+  const handleMouseUp = (e: React.MouseEvent<HTMLDivElement>) => {
+    setIsDraggingSplit(false);
+    if (!dragStart) return;
+    const end = toImagePoint(e) ?? dragEnd;
+    setDragStart(null);
+    setDragEnd(null);
+    if (!end) return;
+
+    const box: BoundingBox = {
+      x: Math.min(dragStart.x, end.x),
+      y: Math.min(dragStart.y, end.y),
+      width: Math.abs(end.x - dragStart.x),
+      height: Math.abs(end.y - dragStart.y)
+    };
+
+    // Ignore accidental clicks in box mode
+    if (box.width < 4 || box.height < 4) return;
+
+    runSegmentation({ points: [], box });
+  };
 
-    masks.forEach(mask => {
-      const maskImg = new Image();
-      maskImg.crossOrigin = "anonymous";
-      maskImg.onload = () => {
-        ctx.save();
-        ctx.globalAlpha = mask.opacity;
-        ctx.globalCompositeOperation = 'multiply';
-        
-        ctx.fillStyle = mask.color;
-        ctx.fillRect(0, 0, downloadCanvas.width, downloadCanvas.height);
-        
-        ctx.globalCompositeOperation = 'destination-in';
-        ctx.drawImage(maskImg, 0, 0, downloadCanvas.width, downloadCanvas.height);
-        
-        ctx.restore();
-      };
-      maskImg.src = mask.maskUrl;
-    });
-
-    setTimeout(() => {
-      downloadCanvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = 'customized-furniture.png';
-          a.click();
-          URL.revokeObjectURL(url);
-        }
-      });
-    }, 500);
+  const dragBox = dragStart && dragEnd && baseImageRef.current ? {
+    left: `${(Math.min(dragStart.x, dragEnd.x) / baseImageRef.current.naturalWidth) * 100}%`,
+    top: `${(Math.min(dragStart.y, dragEnd.y) / baseImageRef.current.naturalHeight) * 100}%`,
+    width: `${(Math.abs(dragEnd.x - dragStart.x) / baseImageRef.current.naturalWidth) * 100}%`,
+    height: `${(Math.abs(dragEnd.y - dragStart.y) / baseImageRef.current.naturalHeight) * 100}%`
+  } : null;
+
+  const handleZoomIn = () => {
+    onZoomChange?.(Math.min(zoom + 10, 200));
   };
 
-  const handleUpdateLastMaskColor = () => {
-    if (masks.length === 0) return;
+  const handleZoomOut = () => {
+    onZoomChange?.(Math.max(zoom - 10, 50));
+  };
 
-    setMasks(prev => {
-      const updated = [...prev];
-      updated[updated.length - 1] = {
-        ...updated[updated.length - 1],
-        color: selectedColor
-      };
-      return updated;
-    });
+  const handleReset = () => {
+    onZoomChange?.(100);
+    onReset?.();
   };
 
-  useEffect(() => {
-    if (selectedColor && masks.length > 0) {
-      handleUpdateLastMaskColor();
-    }
-  }, [selectedColor]);
+  const handleDownload = (layout: ExportLayout) => {
+    const baseImage = baseImageRef.current;
+    if (!baseImage) return;
+    downloadDesign(baseImage, masks, { ...exportSettings, layout });
+  };
+
+  const toggleViewMode = (mode: ViewMode) => {
+    setViewMode(prev => prev === mode ? 'edit' : mode);
+  };
+
+  // Side by side, each copy shrinks so both fit the workspace
+  const containerWidth = canvasContainerRef.current?.clientWidth ?? 0;
+  const panelScale = viewMode === 'side-by-side' && imageDimensions.width > 0 && containerWidth > 0
+    ? Math.min(1, (containerWidth * 0.95 - 16) / (2 * imageDimensions.width))
+    : 1;
+  const panelWidth = imageDimensions.width * panelScale;
+  const panelHeight = imageDimensions.height * panelScale;
 
   return (
     <div className={cn("flex flex-col h-full", className)}>
@@ -266,7 +448,7 @@ export function CanvasWorkspace({
         <div className="flex items-center gap-2 min-w-[120px]">
           <Slider
             value={[zoom]}
-            onValueChange={(value) => setZoom(value[0])}
+            onValueChange={(value) => onZoomChange?.(value[0])}
             min={50}
             max={200}
             step={10}
@@ -284,6 +466,88 @@ export function CanvasWorkspace({
         >
           <ZoomIn className="h-4 w-4" />
         </Button>
+        <div className="flex items-center gap-1 ml-2">
+          <Button
+            variant={tool === 'click' ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => setTool('click')}
+            title="Click to detect a part"
+            data-testid="button-tool-click"
+          >
+            <MousePointerClick className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={tool === 'box' ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => setTool('box')}
+            title="Drag a box around a part"
+            data-testid="button-tool-box"
+          >
+            <SquareDashedMousePointer className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={tool === 'eyedropper' ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => setTool('eyedropper')}
+            title="Pick a color from the photo"
+            data-testid="button-tool-eyedropper"
+          >
+            <Pipette className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-1 ml-2">
+          <Button
+            variant={viewMode === 'split' ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => toggleViewMode('split')}
+            title="Before/after slider"
+            data-testid="button-view-split"
+          >
+            <SquareSplitHorizontal className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={viewMode === 'side-by-side' ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => toggleViewMode('side-by-side')}
+            title="Before and after side by side"
+            data-testid="button-view-side-by-side"
+          >
+            <Columns2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={showOriginal ? 'default' : 'outline'}
+            size="icon"
+            onPointerDown={() => setShowOriginal(true)}
+            onPointerUp={() => setShowOriginal(false)}
+            onPointerLeave={() => setShowOriginal(false)}
+            title="Hold to show the original (or hold \\)"
+            data-testid="button-show-original"
+          >
+            <Eye className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-1 ml-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            data-testid="button-undo"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            data-testid="button-redo"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
         <div className="flex-1" />
         <Button
           variant="outline"
@@ -293,15 +557,26 @@ export function CanvasWorkspace({
         >
           <RotateCcw className="h-4 w-4" />
         </Button>
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={handleDownload}
-          disabled={!imageLoaded}
-          data-testid="button-download"
-        >
-          <Download className="h-4 w-4" />
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={!imageLoaded || isExporting}
+              data-testid="button-download"
+            >
+              {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleDownload('design')} data-testid="menu-download-design">
+              Design
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleDownload('before-after')} data-testid="menu-download-before-after">
+              Before / after
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       <div 
@@ -316,44 +591,122 @@ export function CanvasWorkspace({
         )}
         
         {imageUrl && (
-          <div 
-            className="relative cursor-crosshair"
+          <div
+            className="flex items-center gap-4"
             style={{
-              width: `${imageDimensions.width}px`,
-              height: `${imageDimensions.height}px`,
               transform: `scale(${zoom / 100})`,
               transformOrigin: 'center center'
             }}
-            onClick={handleCanvasClick}
-            data-testid="canvas-clickable-area"
           >
-            <img
-              ref={baseImageRef}
-              alt="Furniture"
-              className="absolute inset-0 w-full h-full object-contain pointer-events-none select-none"
-              draggable={false}
-              data-testid="img-base-furniture"
-            />
-            <canvas
-              ref={canvasRef}
-              className="absolute inset-0 pointer-events-none"
-              data-testid="canvas-overlay"
-            />
-            {isSegmenting && (
-              <div className="absolute inset-0 flex items-center justify-center bg-black/20 backdrop-blur-sm" data-testid="loading-segmentation">
-                <div className="bg-background p-4 rounded-lg shadow-lg flex items-center gap-3">
-                  <Loader2 className="h-5 w-5 animate-spin" />
-                  <span className="font-medium">Detecting furniture part...</span>
-                </div>
+            {viewMode === 'side-by-side' && (
+              <div
+                className="relative select-none"
+                style={{ width: `${panelWidth}px`, height: `${panelHeight}px` }}
+                data-testid="panel-original"
+              >
+                <img
+                  src={imageUrl}
+                  alt="Original furniture"
+                  className="absolute inset-0 w-full h-full object-contain pointer-events-none select-none"
+                  draggable={false}
+                />
+                <ComparisonLabel className="left-2">Before</ComparisonLabel>
               </div>
             )}
+            <div 
+              className={cn("relative select-none", viewMode === 'split' ? "cursor-ew-resize" : "cursor-crosshair")}
+              style={{
+                width: `${panelWidth}px`,
+                height: `${panelHeight}px`
+              }}
+              onClick={handleCanvasClick}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseUp}
+              data-testid="canvas-clickable-area"
+            >
+              <img
+                ref={baseImageRef}
+                alt="Furniture"
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none select-none"
+                draggable={false}
+                data-testid="img-base-furniture"
+              />
+              <canvas
+                ref={canvasRef}
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                style={{
+                  visibility: showOriginal ? 'hidden' : undefined,
+                  clipPath: viewMode === 'split' ? `inset(0 0 0 ${splitPosition}%)` : undefined
+                }}
+                data-testid="canvas-overlay"
+              />
+              {viewMode === 'split' && (
+                <>
+                  <div
+                    className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow pointer-events-none"
+                    style={{ left: `${splitPosition}%` }}
+                    data-testid="split-handle"
+                  >
+                    <span className="absolute top-1/2 left-1/2 h-8 w-8 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-black/40 shadow-md flex items-center justify-center">
+                      <SquareSplitHorizontal className="h-4 w-4 text-white" />
+                    </span>
+                  </div>
+                  <ComparisonLabel className="left-2">Before</ComparisonLabel>
+                  <ComparisonLabel className="right-2">After</ComparisonLabel>
+                </>
+              )}
+              {viewMode === 'side-by-side' && <ComparisonLabel className="left-2">After</ComparisonLabel>}
+              {showOriginal && <ComparisonLabel className="left-2">Original</ComparisonLabel>}
+              {activeMask && activeMask.visible && baseImageRef.current && activeMask.points.map((point, idx) => (
+                <span
+                  key={idx}
+                  className={cn(
+                    "absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow pointer-events-none",
+                    point.label === 1 ? "bg-green-500" : "bg-red-500"
+                  )}
+                  style={{
+                    left: `${(point.x / baseImageRef.current!.naturalWidth) * 100}%`,
+                    top: `${(point.y / baseImageRef.current!.naturalHeight) * 100}%`
+                  }}
+                  data-testid={`marker-point-${idx}`}
+                />
+              ))}
+              {tool === 'eyedropper' && sample && baseImageRef.current && (
+                <span
+                  className="absolute h-5 w-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-md pointer-events-none"
+                  style={{
+                    left: `${(sample.point.x / baseImageRef.current.naturalWidth) * 100}%`,
+                    top: `${(sample.point.y / baseImageRef.current.naturalHeight) * 100}%`,
+                    backgroundColor: sample.hex
+                  }}
+                  data-testid="marker-color-sample"
+                />
+              )}
+              {dragBox && (
+                <div
+                  className="absolute border-2 border-dashed border-primary bg-primary/10 pointer-events-none"
+                  style={dragBox}
+                  data-testid="box-selection"
+                />
+              )}
+              {isSegmenting && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/20 backdrop-blur-sm" data-testid="loading-segmentation">
+                  <div className="bg-background p-4 rounded-lg shadow-lg flex items-center gap-3">
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                    <span className="font-medium">Detecting furniture part...</span>
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
         )}
       </div>
 
       {masks.length > 0 && (
         <div className="p-2 border-t bg-background text-sm text-muted-foreground" data-testid="text-masks-count">
-          {masks.length} part{masks.length !== 1 ? 's' : ''} colored
+          {masks.length} part{masks.length !== 1 ? 's' : ''} colored · Shift-click to add to the selected part, Alt-click to exclude
         </div>
       )}
     </div>
@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { Search } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Search, SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
   Accordion,
@@ -8,85 +9,364 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import ColorSwatch from "./ColorSwatch";
-import { colorPalette, type ColorItem } from "@/data/colorPalette";
+import { findNearestColors, type ColorItem } from "@shared/palette";
+import { usePalette } from "@/hooks/use-palette";
+import { useFavoriteColors } from "@/hooks/use-favorite-colors";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { paletteTags, searchPalette, type SearchFacets } from "@/lib/paletteSearch";
 
 interface ColorPaletteProps {
   selectedColor?: ColorItem | null;
   onColorSelect?: (color: ColorItem) => void;
   recentColors?: ColorItem[];
+  sampledColor?: string | null; // Hex picked with the eyedropper
+  onClearSample?: () => void;
 }
 
-export default function ColorPalette({ selectedColor, onColorSelect, recentColors = [] }: ColorPaletteProps) {
+// How many palette matches to offer for an eyedropper sample
+const SAMPLE_MATCHES = 4;
+
+// Tag filters shown before "more"; selected tags always show
+const VISIBLE_TAGS = 10;
+
+const NO_FACETS: SearchFacets = { categoryIds: [], tags: [] };
+
+function FacetChip({ label, count, selected, onClick, testId }: {
+  label: string;
+  count?: number;
+  selected: boolean;
+  onClick: () => void;
+  testId: string;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      data-testid={testId}
+      className={cn(
+        "rounded-full border px-2 py-0.5 text-xs transition-colors hover-elevate",
+        selected ? "border-primary bg-primary text-primary-foreground" : "text-muted-foreground"
+      )}
+    >
+      {label}
+      {count !== undefined && <span className="ml-1 opacity-70">{count}</span>}
+    </button>
+  );
+}
+
+function describeDistance(distance: number) {
+  if (distance < 2) return "Very close";
+  if (distance < 5) return "Close";
+  return "Nearest";
+}
+
+export default function ColorPalette({
+  selectedColor,
+  onColorSelect,
+  recentColors = [],
+  sampledColor,
+  onClearSample
+}: ColorPaletteProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [facets, setFacets] = useState<SearchFacets>(NO_FACETS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showAllTags, setShowAllTags] = useState(false);
+  const [openCategories, setOpenCategories] = useState<string[]>(["stainless-steel", "wooden-finishing"]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const resultsRef = useRef<HTMLDivElement>(null);
+  const { categories } = usePalette();
+  const { favoriteColors, favoriteIds, toggleFavorite } = useFavoriteColors();
+
+  const sampleMatches = useMemo(
+    () => sampledColor ? findNearestColors(categories, sampledColor, SAMPLE_MATCHES) : [],
+    [categories, sampledColor]
+  );
+
+  const search = useMemo(
+    () => searchPalette(categories, searchQuery, facets),
+    [categories, searchQuery, facets]
+  );
+  const facetCount = facets.categoryIds.length + facets.tags.length;
+  const isFiltering = searchQuery.trim() !== "" || facetCount > 0;
+
+  // Category counts ignore the category filter so the other categories stay discoverable
+  const categoryCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    searchPalette(categories, searchQuery, { ...facets, categoryIds: [] }).results
+      .forEach(({ category }) => counts.set(category.id, (counts.get(category.id) ?? 0) + 1));
+    return counts;
+  }, [categories, searchQuery, facets]);
+  const tagCounts = useMemo(
+    () => paletteTags(search.results.map(({ color, category }) => ({ ...category, colors: [color] }))),
+    [search]
+  );
+  const allTags = useMemo(() => paletteTags(categories).map(({ tag }) => tag), [categories]);
+  const visibleTags = showAllTags
+    ? allTags
+    : Array.from(new Set([...facets.tags, ...allTags.slice(0, VISIBLE_TAGS)]));
+
+  const groups = useMemo(() => {
+    if (!isFiltering) return categories;
+    return categories
+      .map(category => ({
+        ...category,
+        colors: search.results.filter(result => result.category.id === category.id).map(result => result.color)
+      }))
+      .filter(category => category.colors.length > 0);
+  }, [categories, isFiltering, search]);
+
+  // Swatches the arrow keys move through, in display order
+  const navigable = useMemo<ColorItem[]>(() => {
+    if (search.hex) return search.results.map(result => result.color);
+    return groups
+      .filter(group => isFiltering || openCategories.includes(group.id))
+      .flatMap(group => group.colors);
+  }, [search, groups, isFiltering, openCategories]);
+  const activeColor = activeIndex >= 0 ? navigable[activeIndex] : undefined;
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [searchQuery, facets]);
+
+  useEffect(() => {
+    resultsRef.current?.querySelector('[data-active="true"]')?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const toggleFacet = (key: keyof SearchFacets, value: string) => {
+    setFacets(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value]
+    }));
+  };
 
-  const filteredPalette = colorPalette.map(category => ({
-    ...category,
-    colors: category.colors.filter(color =>
-      color.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      color.code.toLowerCase().includes(searchQuery.toLowerCase())
-    )
-  })).filter(category => category.colors.length > 0);
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && navigable.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(prev + 1, navigable.length - 1));
+    } else if (e.key === "ArrowUp" && activeIndex >= 0) {
+      e.preventDefault();
+      setActiveIndex(prev => prev - 1);
+    } else if (e.key === "Enter" && activeColor) {
+      e.preventDefault();
+      onColorSelect?.(activeColor);
+    } else if (e.key === "Escape") {
+      if (activeIndex >= 0) {
+        setActiveIndex(-1);
+      } else {
+        setSearchQuery("");
+      }
+    }
+  };
+
+  const renderSwatch = (color: ColorItem, navigation = false) => (
+    <ColorSwatch
+      key={color.id}
+      color={color}
+      isSelected={selectedColor?.id === color.id}
+      isActive={navigation && activeColor?.id === color.id}
+      onClick={() => onColorSelect?.(color)}
+      size="sm"
+      isFavorite={favoriteIds.has(color.id)}
+      onToggleFavorite={() => toggleFavorite(color)}
+    />
+  );
+
+  // A swatch with how far it is from the color being matched
+  const renderMatch = (color: ColorItem, categoryName: string, distance: number, navigation = false) => (
+    <div
+      key={color.id}
+      className="flex flex-col items-center gap-1"
+      title={`${categoryName} · ΔE ${distance.toFixed(1)}`}
+    >
+      {renderSwatch(color, navigation)}
+      <span className="text-[10px] text-muted-foreground" data-testid={`text-match-distance-${color.id}`}>
+        {describeDistance(distance)} · ΔE {distance.toFixed(1)}
+      </span>
+    </div>
+  );
 
   return (
     <div className="flex flex-col h-full">
       <div className="p-4 border-b">
         <h2 className="text-lg font-semibold mb-3 tracking-wide uppercase text-sm">Color Palette</h2>
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            data-testid="input-color-search"
-            type="search"
-            placeholder="Search colors..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-9"
-          />
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              data-testid="input-color-search"
+              type="search"
+              placeholder='Name, code, #hex or "warm brown"'
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              aria-label="Search colors. Use the arrow keys to move through results and Enter to apply."
+              className="pl-9"
+            />
+          </div>
+          <Button
+            variant={showFilters || facetCount > 0 ? "default" : "outline"}
+            size="icon"
+            onClick={() => setShowFilters(prev => !prev)}
+            aria-label="Filters"
+            aria-expanded={showFilters}
+            data-testid="button-toggle-filters"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
         </div>
+
+        {search.colorWords.length > 0 && (
+          <p className="mt-2 text-xs text-muted-foreground" data-testid="text-color-words">
+            Matching colors: {search.colorWords.join(", ")}
+          </p>
+        )}
+
+        {showFilters && (
+          <div className="mt-3 space-y-3" data-testid="section-filters">
+            <div>
+              <h3 className="text-xs font-medium mb-1.5 text-muted-foreground uppercase tracking-wide">Category</h3>
+              <div className="flex flex-wrap gap-1.5">
+                {categories.map(category => (
+                  <FacetChip
+                    key={category.id}
+                    label={category.name}
+                    count={categoryCounts.get(category.id) ?? 0}
+                    selected={facets.categoryIds.includes(category.id)}
+                    onClick={() => toggleFacet("categoryIds", category.id)}
+                    testId={`facet-category-${category.id}`}
+                  />
+                ))}
+              </div>
+            </div>
+            {allTags.length > 0 && (
+              <div>
+                <h3 className="text-xs font-medium mb-1.5 text-muted-foreground uppercase tracking-wide">Tags</h3>
+                <div className="flex flex-wrap gap-1.5">
+                  {visibleTags.map(tag => (
+                    <FacetChip
+                      key={tag}
+                      label={tag}
+                      count={tagCounts.find(entry => entry.tag === tag)?.count ?? 0}
+                      selected={facets.tags.includes(tag)}
+                      onClick={() => toggleFacet("tags", tag)}
+                      testId={`facet-tag-${tag}`}
+                    />
+                  ))}
+                  {allTags.length > VISIBLE_TAGS && (
+                    <button
+                      type="button"
+                      onClick={() => setShowAllTags(prev => !prev)}
+                      className="px-1 text-xs text-primary hover:underline"
+                      data-testid="button-toggle-all-tags"
+                    >
+                      {showAllTags ? "Fewer" : "More"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+            {facetCount > 0 && (
+              <button
+                type="button"
+                onClick={() => setFacets(NO_FACETS)}
+                className="text-xs text-primary hover:underline"
+                data-testid="button-clear-filters"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
-      {recentColors.length > 0 && (
+      {sampledColor && (
+        <div className="p-4 border-b" data-testid="section-sample-matches">
+          <div className="flex items-center gap-2 mb-3">
+            <span
+              className="h-5 w-5 rounded-md border flex-shrink-0"
+              style={{ backgroundColor: sampledColor }}
+              data-testid="swatch-sampled-color"
+            />
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">Closest Finishes</h3>
+            <span className="text-xs font-mono text-muted-foreground">{sampledColor}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 ml-auto"
+              onClick={onClearSample}
+              aria-label="Clear picked color"
+              data-testid="button-clear-sample"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-4 gap-3">
+            {sampleMatches.map(match => renderMatch(match.color, match.category.name, match.distance))}
+          </div>
+        </div>
+      )}
+
+      {!isFiltering && favoriteColors.length > 0 && (
+        <div className="p-4 border-b" data-testid="section-favorite-colors">
+          <h3 className="text-sm font-medium mb-3 text-muted-foreground uppercase tracking-wide">Favorites</h3>
+          <div className="grid grid-cols-4 gap-3">
+            {favoriteColors.map(color => renderSwatch(color))}
+          </div>
+        </div>
+      )}
+
+      {!isFiltering && recentColors.length > 0 && (
         <div className="p-4 border-b">
           <h3 className="text-sm font-medium mb-3 text-muted-foreground uppercase tracking-wide">Recently Used</h3>
           <div className="grid grid-cols-4 gap-3">
-            {recentColors.slice(0, 8).map((color) => (
-              <ColorSwatch
-                key={color.id}
-                color={color}
-                isSelected={selectedColor?.id === color.id}
-                onClick={() => onColorSelect?.(color)}
-                size="sm"
-              />
-            ))}
+            {recentColors.slice(0, 8).map(color => renderSwatch(color))}
           </div>
         </div>
       )}
 
       <ScrollArea className="flex-1">
-        <div className="p-4">
-          <Accordion type="multiple" defaultValue={["stainless-steel", "wooden-finishing"]} className="space-y-2">
-            {filteredPalette.map((category) => (
-              <AccordionItem key={category.id} value={category.id} className="border rounded-lg px-3">
-                <AccordionTrigger className="hover:no-underline py-3" data-testid={`accordion-${category.id}`}>
-                  <span className="text-sm font-medium">{category.name}</span>
-                  <span className="text-xs text-muted-foreground ml-2">({category.colors.length})</span>
-                </AccordionTrigger>
-                <AccordionContent className="pb-4 pt-2">
-                  <div className="grid grid-cols-4 gap-3">
-                    {category.colors.map((color) => (
-                      <ColorSwatch
-                        key={color.id}
-                        color={color}
-                        isSelected={selectedColor?.id === color.id}
-                        onClick={() => onColorSelect?.(color)}
-                        size="sm"
-                      />
-                    ))}
-                  </div>
-                </AccordionContent>
-              </AccordionItem>
-            ))}
-          </Accordion>
+        <div className="p-4" ref={resultsRef}>
+          {search.hex ? (
+            <div data-testid="section-hex-matches">
+              <div className="flex items-center gap-2 mb-3">
+                <span className="h-5 w-5 rounded-md border flex-shrink-0" style={{ backgroundColor: search.hex }} />
+                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">Nearest to</h3>
+                <span className="text-xs font-mono text-muted-foreground">{search.hex}</span>
+              </div>
+              <div className="grid grid-cols-4 gap-3">
+                {search.results.map(result => renderMatch(result.color, result.category.name, result.distance ?? 0, true))}
+              </div>
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6" data-testid="text-no-results">
+              No finishes match your search
+            </p>
+          ) : (
+            <Accordion
+              type="multiple"
+              value={isFiltering ? groups.map(group => group.id) : openCategories}
+              onValueChange={(value) => {
+                if (!isFiltering) setOpenCategories(value);
+              }}
+              className="space-y-2"
+            >
+              {groups.map((category) => (
+                <AccordionItem key={category.id} value={category.id} className="border rounded-lg px-3">
+                  <AccordionTrigger className="hover:no-underline py-3" data-testid={`accordion-${category.id}`}>
+                    <span className="text-sm font-medium">{category.name}</span>
+                    <span className="text-xs text-muted-foreground ml-2">({category.colors.length})</span>
+                  </AccordionTrigger>
+                  <AccordionContent className="pb-4 pt-2">
+                    <div className="grid grid-cols-4 gap-3">
+                      {category.colors.map(color => renderSwatch(color, true))}
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          )}
         </div>
       </ScrollArea>
     </div>
@@ -1,43 +1,90 @@
+import { Star } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { ColorItem } from "@/data/colorPalette";
+import type { ColorItem } from "@shared/palette";
 
 interface ColorSwatchProps {
   color: ColorItem;
   isSelected?: boolean;
+  isActive?: boolean; // Keyboard highlight while navigating search results
   onClick?: () => void;
   size?: "sm" | "md" | "lg";
+  isFavorite?: boolean;
+  onToggleFavorite?: () => void; // Shows a star on the swatch when set
 }
 
-export default function ColorSwatch({ color, isSelected, onClick, size = "md" }: ColorSwatchProps) {
+export default function ColorSwatch({
+  color,
+  isSelected,
+  isActive,
+  onClick,
+  size = "md",
+  isFavorite,
+  onToggleFavorite
+}: ColorSwatchProps) {
   const sizeClasses = {
     sm: "h-10 w-10",
     md: "h-12 w-12",
     lg: "h-16 w-16"
   };
 
+  // Puts the star over the swatch's top-right corner
+  const starOffsetClasses = {
+    sm: "ml-3",
+    md: "ml-4",
+    lg: "ml-6"
+  };
+
   return (
-    <button
-      onClick={onClick}
-      data-testid={`color-swatch-${color.id}`}
-      className={cn(
-        "group flex flex-col items-center gap-1 transition-all",
-        onClick && "cursor-pointer"
-      )}
-    >
-      <div
+    <div className="group relative flex flex-col items-center">
+      <button
+        onClick={onClick}
+        data-testid={`color-swatch-${color.id}`}
+        data-active={isActive || undefined}
         className={cn(
-          sizeClasses[size],
-          "rounded-lg border-2 transition-all hover-elevate active-elevate-2",
-          isSelected ? "border-primary ring-2 ring-primary ring-offset-2" : "border-border"
+          "flex flex-col items-center gap-1 rounded-md transition-all",
+          onClick && "cursor-pointer",
+          isActive && "bg-accent outline outline-2 outline-offset-2 outline-ring"
         )}
-        style={{ backgroundColor: color.hexColor }}
-      />
-      <div className="flex flex-col items-center gap-0.5">
-        <span className="text-xs font-mono font-medium text-foreground">{color.code}</span>
-        <span className="text-xs text-muted-foreground truncate max-w-[80px] group-hover:text-foreground transition-colors" title={color.name}>
-          {color.name}
-        </span>
-      </div>
-    </button>
+      >
+        <div
+          className={cn(
+            sizeClasses[size],
+            "rounded-lg border-2 transition-all hover-elevate active-elevate-2",
+            isSelected ? "border-primary ring-2 ring-primary ring-offset-2" : "border-border"
+          )}
+          style={{
+            backgroundColor: color.hexColor,
+            // Grain textures are centered on mid grey, which overlay leaves unchanged
+            ...(color.textureUrl && {
+              backgroundImage: `url(${color.textureUrl})`,
+              backgroundSize: "200%",
+              backgroundBlendMode: "overlay"
+            })
+          }}
+        />
+        <div className="flex flex-col items-center gap-0.5">
+          <span className="text-xs font-mono font-medium text-foreground">{color.code}</span>
+          <span className="text-xs text-muted-foreground truncate max-w-[80px] group-hover:text-foreground transition-colors" title={color.name}>
+            {color.name}
+          </span>
+        </div>
+      </button>
+      {onToggleFavorite && (
+        <button
+          type="button"
+          onClick={onToggleFavorite}
+          aria-label={isFavorite ? `Unstar ${color.name}` : `Star ${color.name}`}
+          aria-pressed={!!isFavorite}
+          data-testid={`button-favorite-${color.id}`}
+          className={cn(
+            "absolute -top-1.5 left-1/2 rounded-full bg-background p-0.5 shadow-sm transition-opacity",
+            starOffsetClasses[size],
+            isFavorite ? "opacity-100" : "opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+          )}
+        >
+          <Star className={cn("h-3 w-3", isFavorite ? "fill-amber-400 text-amber-500" : "text-muted-foreground")} />
+        </button>
+      )}
+    </div>
   );
 }
@@ -1,17 +1,21 @@
-import { Palette, HelpCircle, FolderOpen } from "lucide-react";
+import { Link } from "wouter";
+import { Palette, HelpCircle, FolderOpen, Check, Loader2, CloudOff, SwatchBook, ClipboardList } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import type { SaveStatus } from "@/hooks/use-autosave";
 
 interface HeaderProps {
   projectName?: string;
   onProjectNameChange?: (name: string) => void;
   onOpenGallery?: () => void;
+  saveStatus?: SaveStatus;
 }
 
 export default function Header({ 
   projectName = "Untitled Project", 
   onProjectNameChange,
-  onOpenGallery 
+  onOpenGallery,
+  saveStatus
 }: HeaderProps) {
   return (
     <header className="h-16 border-b bg-background flex items-center justify-between px-6 sticky top-0 z-50">
@@ -34,6 +38,14 @@ export default function Header({
         />
       </div>
 
+      {saveStatus && (
+        <div className="flex items-center gap-1.5 mr-4 text-xs text-muted-foreground" data-testid="text-save-status">
+          {saveStatus === "saved" && <><Check className="h-3.5 w-3.5" />Saved</>}
+          {saveStatus === "saving" && <><Loader2 className="h-3.5 w-3.5 animate-spin" />Saving…</>}
+          {saveStatus === "offline" && <><CloudOff className="h-3.5 w-3.5 text-destructive" />Offline</>}
+        </div>
+      )}
+
       <div className="flex items-center gap-2">
         <Button 
           variant="outline" 
@@ -43,6 +55,16 @@ export default function Header({
           <FolderOpen className="h-4 w-4 mr-2" />
           My Projects
         </Button>
+        <Link href="/admin/palette">
+          <Button size="icon" variant="ghost" title="Manage palette" data-testid="link-palette-admin">
+            <SwatchBook className="h-4 w-4" />
+          </Button>
+        </Link>
+        <Link href="/admin/quotes">
+          <Button size="icon" variant="ghost" title="Quote requests" data-testid="link-quote-requests">
+            <ClipboardList className="h-4 w-4" />
+          </Button>
+        </Link>
         <Button size="icon" variant="ghost" data-testid="button-help">
           <HelpCircle className="h-4 w-4" />
         </Button>
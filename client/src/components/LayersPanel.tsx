@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from "react";
+import { Eye, EyeOff, GripVertical, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { compositeOperationFor, loadImage, loadMask } from "@/lib/masks";
+import type { ColoredMask } from "./CanvasWorkspace";
+
+interface LayersPanelProps {
+  imageUrl?: string;
+  layers: ColoredMask[];
+  selectedLayerId?: string | null;
+  onSelect?: (id: string) => void;
+  onChange?: (id: string, changes: Partial<ColoredMask>) => void;
+  onMove?: (id: string, toIndex: number) => void;
+  onDelete?: (id: string) => void;
+}
+
+const THUMBNAIL_SIZE = 40;
+
+function LayerThumbnail({ imageUrl, layer }: { imageUrl?: string; layer: ColoredMask }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !imageUrl) return;
+
+    let cancelled = false;
+    Promise.all([loadImage(imageUrl), loadMask(layer.maskUrl)]).then(([image, mask]) => {
+      if (cancelled) return;
+
+      // Crop to the part with a little padding so small parts stay recognisable
+      const { x, y, width, height } = layer.boundingBox;
+      const size = Math.max(width, height, 1) * 1.2;
+      const sx = x + width / 2 - size / 2;
+      const sy = y + height / 2 - size / 2;
+
+      const tint = document.createElement("canvas");
+      tint.width = THUMBNAIL_SIZE;
+      tint.height = THUMBNAIL_SIZE;
+      const tintCtx = tint.getContext("2d");
+      if (!tintCtx) return;
+      tintCtx.fillStyle = layer.color;
+      tintCtx.fillRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+      tintCtx.globalCompositeOperation = "destination-in";
+      tintCtx.drawImage(mask, sx, sy, size, size, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+
+      ctx.clearRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+      ctx.drawImage(image, sx, sy, size, size, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+      ctx.save();
+      ctx.globalAlpha = layer.opacity;
+      ctx.globalCompositeOperation = compositeOperationFor(layer.blendMode);
+      ctx.drawImage(tint, 0, 0);
+      ctx.restore();
+    }).catch(error => console.error("Failed to render layer thumbnail:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, layer.maskUrl, layer.color, layer.opacity, layer.blendMode, layer.boundingBox]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={THUMBNAIL_SIZE}
+      height={THUMBNAIL_SIZE}
+      className="h-10 w-10 rounded-md border bg-muted flex-shrink-0"
+      style={{ backgroundColor: layer.color }}
+    />
+  );
+}
+
+export default function LayersPanel({
+  imageUrl,
+  layers,
+  selectedLayerId,
+  onSelect,
+  onChange,
+  onMove,
+  onDelete
+}: LayersPanelProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Top-most layer first, like the layer stack in design tools
+  const ordered = [...layers].reverse();
+
+  if (layers.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground" data-testid="text-no-layers">
+        Click a furniture part on the canvas to add it here.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1" data-testid="list-layers">
+      {ordered.map((layer) => (
+        <li
+          key={layer.id}
+          draggable
+          onDragStart={(e) => {
+            setDraggingId(layer.id);
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(e) => {
+            if (draggingId) e.preventDefault();
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (draggingId && draggingId !== layer.id) {
+              onMove?.(draggingId, layers.findIndex(l => l.id === layer.id));
+            }
+            setDraggingId(null);
+          }}
+          onDragEnd={() => setDraggingId(null)}
+          onClick={() => onSelect?.(layer.id)}
+          className={cn(
+            "group flex items-center gap-2 rounded-md border p-1.5 cursor-pointer hover-elevate",
+            layer.id === selectedLayerId ? "border-primary bg-primary/5" : "border-transparent",
+            draggingId === layer.id && "opacity-50",
+            !layer.visible && "text-muted-foreground"
+          )}
+          data-testid={`layer-${layer.id}`}
+        >
+          <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab flex-shrink-0" />
+          <LayerThumbnail imageUrl={imageUrl} layer={layer} />
+          <div className="flex-1 min-w-0">
+            {editingId === layer.id ? (
+              <Input
+                autoFocus
+                defaultValue={layer.name}
+                className="h-7 text-sm"
+                onClick={(e) => e.stopPropagation()}
+                onBlur={(e) => {
+                  onChange?.(layer.id, { name: e.target.value.trim() || layer.name });
+                  setEditingId(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") e.currentTarget.blur();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                data-testid={`input-layer-name-${layer.id}`}
+              />
+            ) : (
+              <p
+                className="text-sm font-medium truncate"
+                onDoubleClick={() => setEditingId(layer.id)}
+                title="Double-click to rename"
+              >
+                {layer.name}
+              </p>
+            )}
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange?.(layer.id, { visible: !layer.visible });
+            }}
+            data-testid={`button-toggle-layer-${layer.id}`}
+          >
+            {layer.visible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete?.(layer.id);
+            }}
+            data-testid={`button-delete-layer-${layer.id}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
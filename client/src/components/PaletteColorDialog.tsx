@@ -0,0 +1,250 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  insertPaletteColorSchema,
+  type InsertPaletteColor,
+  type PaletteCategory,
+  type PaletteColor
+} from "@shared/schema";
+
+const formSchema = insertPaletteColorSchema.pick({
+  categoryId: true,
+  code: true,
+  name: true,
+  hexColor: true,
+}).extend({
+  code: z.string().trim().max(32),
+  textureUrl: z.string().trim(),
+  tags: z.string(), // Comma separated
+  surcharge: z.string().trim().regex(/^(\d+(\.\d{1,2})?)?$/, "Expected an amount, e.g. 45 or 45.50"),
+});
+
+type PaletteColorForm = z.infer<typeof formSchema>;
+
+interface PaletteColorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: PaletteCategory[];
+  color?: PaletteColor | null; // Editing when set, otherwise adding
+  defaultCategoryId?: string;
+  isSaving?: boolean;
+  onSubmit?: (values: InsertPaletteColor) => void;
+}
+
+function defaultsFor(color: PaletteColor | null | undefined, categoryId: string): PaletteColorForm {
+  return {
+    categoryId: color?.categoryId ?? categoryId,
+    code: color?.code ?? "",
+    name: color?.name ?? "",
+    hexColor: color?.hexColor ?? "#FFFFFF",
+    textureUrl: color?.textureUrl ?? "",
+    tags: color?.tags.join(", ") ?? "",
+    surcharge: color?.surcharge ?? "",
+  };
+}
+
+export default function PaletteColorDialog({
+  open,
+  onOpenChange,
+  categories,
+  color,
+  defaultCategoryId = "",
+  isSaving,
+  onSubmit
+}: PaletteColorDialogProps) {
+  const form = useForm<PaletteColorForm>({
+    resolver: zodResolver(formSchema),
+    defaultValues: defaultsFor(color, defaultCategoryId),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(defaultsFor(color, defaultCategoryId));
+  }, [open, color, defaultCategoryId, form]);
+
+  const hexColor = form.watch("hexColor");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{color ? "Edit Finish" : "Add Finish"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            className="space-y-4"
+            onSubmit={form.handleSubmit(values => onSubmit?.({
+              ...values,
+              hexColor: values.hexColor.toUpperCase(),
+              textureUrl: values.textureUrl || null,
+              tags: values.tags.split(",").map(tag => tag.trim().toLowerCase()).filter(Boolean),
+              surcharge: values.surcharge || null,
+            }))}
+          >
+            <FormField
+              control={form.control}
+              name="categoryId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-palette-category">
+                        <SelectValue placeholder="Choose a category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="SS03" className="font-mono" data-testid="input-palette-code" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Rose Gold Plating" data-testid="input-palette-name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="hexColor"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color</FormLabel>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="color"
+                      aria-label="Pick color"
+                      value={/^#[0-9a-fA-F]{6}$/.test(hexColor) ? hexColor : "#FFFFFF"}
+                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      className="h-9 w-12 rounded-md border bg-transparent cursor-pointer"
+                    />
+                    <FormControl>
+                      <Input className="font-mono" data-testid="input-palette-hex" {...field} />
+                    </FormControl>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="textureUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Texture</FormLabel>
+                  <FormControl>
+                    <Input placeholder="/textures/wood-grain.jpg" data-testid="input-palette-texture" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Optional tileable greyscale grain, centered on mid grey. Leave empty for a plain color.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <Input placeholder="wood, matte, indoor" data-testid="input-palette-tags" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Comma separated. Shown as filters in the color picker.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="surcharge"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Surcharge</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" placeholder="Category default" className="font-mono" data-testid="input-palette-surcharge" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Added to the price for each part in this finish. Leave empty to use the category's surcharge.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving} data-testid="button-save-palette-color">
+                {color ? "Save Changes" : "Add Finish"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { ImportedColor, PaletteImportPreview } from "@shared/schema";
+
+interface PaletteImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filename?: string;
+  preview?: PaletteImportPreview | null;
+  isImporting?: boolean;
+  onImport?: (colors: ImportedColor[]) => void;
+}
+
+function Swatch({ hex }: { hex: string }) {
+  return <span className="inline-block h-4 w-4 rounded-sm border align-middle" style={{ backgroundColor: hex }} />;
+}
+
+export default function PaletteImportDialog({
+  open,
+  onOpenChange,
+  filename,
+  preview,
+  isImporting,
+  onImport
+}: PaletteImportDialogProps) {
+  // Rows to import. Rows sharing a supplier code start unchecked for review.
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!preview) return;
+    const flagged = new Set(preview.duplicates.flatMap(duplicate => duplicate.rows));
+    const changes = [...preview.added, ...preview.updated.map(u => u.index)];
+    setSelected(new Set(changes.filter(index => !flagged.has(index))));
+  }, [preview]);
+
+  if (!preview) return null;
+
+  const duplicateCodes = new Map<number, string>();
+  preview.duplicates.forEach(duplicate => duplicate.rows.forEach(row => duplicateCodes.set(row, duplicate.code)));
+  const beforeByIndex = new Map(preview.updated.map(update => [update.index, update.before]));
+  const changes = [...preview.added, ...preview.updated.map(u => u.index)].sort((a, b) => a - b);
+
+  const toggle = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index); else next.delete(index);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Palette</DialogTitle>
+          <DialogDescription>
+            {filename && <span className="font-mono">{filename}</span>}
+            {filename && " · "}
+            {preview.added.length} new, {preview.updated.length} changed, {preview.unchanged.length} unchanged
+            {preview.newCategories.length > 0 && ` · new categories: ${preview.newCategories.join(", ")}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview.duplicates.length > 0 && (
+          <div className="flex gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm" data-testid="text-duplicate-codes">
+            <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div className="space-y-1">
+              <p className="font-medium">Duplicate codes</p>
+              {preview.duplicates.map(duplicate => (
+                <p key={duplicate.code} className="text-xs text-muted-foreground">
+                  <span className="font-mono">{duplicate.code}</span>:{" "}
+                  {duplicate.rows.map(row => preview.colors[row].name).join(", ")}
+                  {duplicate.existing.length > 0 && ` (already used by ${duplicate.existing.join(", ")})`}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {preview.errors.length > 0 && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-xs space-y-1" data-testid="text-import-errors">
+            <p className="font-medium text-sm">{preview.errors.length} row{preview.errors.length !== 1 ? "s" : ""} skipped</p>
+            {preview.errors.slice(0, 5).map(error => (
+              <p key={error.row} className="text-muted-foreground">Row {error.row}: {error.message}</p>
+            ))}
+          </div>
+        )}
+
+        {changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">The palette already matches this file.</p>
+        ) : (
+          <ScrollArea className="max-h-[45vh]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Category</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Color</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map(index => {
+                  const color = preview.colors[index];
+                  const before = beforeByIndex.get(index);
+                  return (
+                    <TableRow key={index} data-testid={`row-import-${index}`}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(index)}
+                          onCheckedChange={(checked) => toggle(index, checked === true)}
+                          data-testid={`checkbox-import-${index}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-xs">{color.category}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {before && before.code !== color.code && (
+                          <span className="line-through text-muted-foreground mr-1">{before.code || "—"}</span>
+                        )}
+                        {color.code || "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">{color.name}</TableCell>
+                      <TableCell className="font-mono text-xs whitespace-nowrap">
+                        {before && before.hexColor !== color.hexColor && (
+                          <span className="mr-2 text-muted-foreground"><Swatch hex={before.hexColor} /> →</span>
+                        )}
+                        <Swatch hex={color.hexColor} /> {color.hexColor}
+                      </TableCell>
+                      <TableCell className="space-x-1">
+                        <Badge variant={before ? "secondary" : "default"}>{before ? "Changed" : "New"}</Badge>
+                        {duplicateCodes.has(index) && <Badge variant="outline">Duplicate code</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={selected.size === 0 || isImporting}
+            onClick={() => onImport?.(changes.filter(index => selected.has(index)).map(index => preview.colors[index]))}
+            data-testid="button-confirm-import"
+          >
+            Import {selected.size} finish{selected.size !== 1 ? "es" : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
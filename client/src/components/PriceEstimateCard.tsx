@@ -0,0 +1,95 @@
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatPrice, type PriceEstimate } from "@shared/pricing";
+import type { BaseModel } from "@shared/schema";
+
+// Radix Select cannot hold an empty value
+const NO_MODEL = "none";
+
+interface PriceEstimateCardProps {
+  baseModels: BaseModel[];
+  baseModelId?: string | null;
+  onBaseModelChange?: (id: string | null) => void;
+  estimate: PriceEstimate;
+}
+
+export default function PriceEstimateCard({
+  baseModels,
+  baseModelId,
+  onBaseModelChange,
+  estimate
+}: PriceEstimateCardProps) {
+  const model = baseModels.find(candidate => candidate.id === baseModelId);
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="card-price-estimate">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-medium">Price Estimate</h3>
+        <span className="text-lg font-semibold font-mono" data-testid="text-estimate-total">
+          {formatPrice(estimate.total)}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="base-model" className="text-xs text-muted-foreground">Base Model</Label>
+        <Select
+          value={model?.id ?? NO_MODEL}
+          onValueChange={(id) => onBaseModelChange?.(id === NO_MODEL ? null : id)}
+        >
+          <SelectTrigger id="base-model" data-testid="select-base-model">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_MODEL}>Finishes only</SelectItem>
+            {baseModels.map(candidate => (
+              <SelectItem key={candidate.id} value={candidate.id}>
+                {candidate.name} ({formatPrice(Number(candidate.basePrice))})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1 text-xs">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Base price</span>
+          <span className="font-mono">{formatPrice(estimate.basePrice)}</span>
+        </div>
+        {estimate.lines.map(line => (
+          <div key={line.regionId} className="flex justify-between gap-2" data-testid={`row-estimate-${line.regionId}`}>
+            <span className="truncate">
+              {line.regionName}
+              <span className="text-muted-foreground"> · {line.finishName ?? "Custom color"}</span>
+              {line.weight < 1 && (
+                <span className="text-muted-foreground"> · {Math.round(line.weight * 100)}% of area</span>
+              )}
+            </span>
+            <span className="font-mono flex-shrink-0">{formatPrice(line.amount)}</span>
+          </div>
+        ))}
+        {estimate.lines.length === 0 && (
+          <p className="text-muted-foreground">Color parts to add their finish surcharges.</p>
+        )}
+      </div>
+
+      <Separator />
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">Finishes</span>
+        <span className="font-mono">{formatPrice(estimate.finishTotal)}</span>
+      </div>
+      {model?.areaWeighted && (
+        <p className="text-xs text-muted-foreground">
+          Surcharges are shared between parts by their size.
+        </p>
+      )}
+    </Card>
+  );
+}
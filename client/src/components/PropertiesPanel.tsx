@@ -1,5 +1,4 @@
-import { useState } from "react";
-import { Download, Save } from "lucide-react";
+import { Download, FileText, Loader2, MessageSquareQuote, Save } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,30 +11,59 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
-import type { ColorItem } from "@/data/colorPalette";
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_SCALES, type ExportFormat, type ExportLayout, type ExportSettings } from "@/lib/export";
+import type { ColorItem } from "@shared/palette";
+import type { PriceEstimate } from "@shared/pricing";
+import type { BaseModel } from "@shared/schema";
+import LayersPanel from "./LayersPanel";
+import PriceEstimateCard from "./PriceEstimateCard";
+import type { ColoredMask } from "./CanvasWorkspace";
 
 interface PropertiesPanelProps {
+  imageUrl?: string;
+  layers?: ColoredMask[];
+  selectedLayer?: ColoredMask | null;
+  onLayerSelect?: (id: string) => void;
+  onLayerChange?: (id: string, changes: Partial<ColoredMask>) => void;
+  onLayerMove?: (id: string, toIndex: number) => void;
+  onLayerDelete?: (id: string) => void;
   selectedColor?: ColorItem | null;
-  opacity?: number;
-  blendMode?: string;
-  onOpacityChange?: (opacity: number) => void;
-  onBlendModeChange?: (mode: string) => void;
-  onDownload?: (filename: string, format: string, scale: number) => void;
+  baseModels?: BaseModel[];
+  baseModelId?: string | null;
+  onBaseModelChange?: (id: string | null) => void;
+  estimate?: PriceEstimate; // The estimate card is hidden without one
+  exportSettings?: ExportSettings;
+  onExportSettingsChange?: (settings: ExportSettings) => void;
+  isDownloading?: boolean;
+  onDownload?: () => void;
+  onQuotation?: () => void; // Unset until the project and its image are saved
+  onRequestQuote?: () => void; // Same
   onSave?: () => void;
 }
 
 export default function PropertiesPanel({ 
+  imageUrl,
+  layers = [],
+  selectedLayer,
+  onLayerSelect,
+  onLayerChange,
+  onLayerMove,
+  onLayerDelete,
   selectedColor, 
-  opacity = 70,
-  blendMode = "multiply",
-  onOpacityChange,
-  onBlendModeChange,
+  baseModels = [],
+  baseModelId,
+  onBaseModelChange,
+  estimate,
+  exportSettings = DEFAULT_EXPORT_SETTINGS,
+  onExportSettingsChange,
+  isDownloading,
   onDownload,
+  onQuotation,
+  onRequestQuote,
   onSave 
 }: PropertiesPanelProps) {
-  const [fileName, setFileName] = useState("customized-furniture");
-  const [format, setFormat] = useState("png");
-  const [resolution, setResolution] = useState("1x");
+  const updateExport = (changes: Partial<ExportSettings>) =>
+    onExportSettingsChange?.({ ...exportSettings, ...changes });
 
   return (
     <div className="flex flex-col h-full">
@@ -44,7 +72,20 @@ export default function PropertiesPanel({
       </div>
 
       <div className="flex-1 overflow-auto p-4 space-y-6">
-        {selectedColor && (
+        <Card className="p-4 space-y-3">
+          <h3 className="text-sm font-medium">Parts</h3>
+          <LayersPanel
+            imageUrl={imageUrl}
+            layers={layers}
+            selectedLayerId={selectedLayer?.id}
+            onSelect={onLayerSelect}
+            onChange={onLayerChange}
+            onMove={onLayerMove}
+            onDelete={onLayerDelete}
+          />
+        </Card>
+
+        {selectedLayer && (
           <Card className="p-4 space-y-3">
             <h3 className="text-sm font-medium">Active Selection</h3>
             
@@ -54,47 +95,90 @@ export default function PropertiesPanel({
                 id="region-name"
                 data-testid="input-region-name"
                 placeholder="e.g., Sofa Seat" 
-                defaultValue="Selected Area"
+                value={selectedLayer.name}
+                onChange={(e) => onLayerChange?.(selectedLayer.id, { name: e.target.value })}
               />
             </div>
 
-            <div className="space-y-2">
-              <Label className="text-xs text-muted-foreground">Applied Color</Label>
-              <div className="flex items-center gap-3 p-3 rounded-lg border bg-muted/30">
-                <div 
-                  className="h-10 w-10 rounded-md border-2 flex-shrink-0"
-                  style={{ backgroundColor: selectedColor.hexColor }}
-                />
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">{selectedColor.name}</p>
-                  <p className="text-xs text-muted-foreground font-mono">{selectedColor.code}</p>
+            {selectedColor && (
+              <div className="space-y-2">
+                <Label className="text-xs text-muted-foreground">Applied Color</Label>
+                <div className="flex items-center gap-3 p-3 rounded-lg border bg-muted/30">
+                  <div 
+                    className="h-10 w-10 rounded-md border-2 flex-shrink-0"
+                    style={{ backgroundColor: selectedColor.hexColor }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{selectedColor.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono">{selectedColor.code}</p>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
 
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="opacity" className="text-xs text-muted-foreground">Opacity</Label>
-                <span className="text-xs font-mono">{Math.round(opacity)}%</span>
+                <span className="text-xs font-mono">{Math.round(selectedLayer.opacity * 100)}%</span>
               </div>
               <Slider
                 id="opacity"
                 data-testid="slider-opacity"
-                value={[opacity]}
-                onValueChange={(val) => onOpacityChange?.(val[0])}
+                value={[selectedLayer.opacity * 100]}
+                onValueChange={(val) => onLayerChange?.(selectedLayer.id, { opacity: val[0] / 100 })}
                 min={0}
                 max={100}
                 step={5}
               />
             </div>
 
+            {selectedLayer.textureUrl && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="texture-scale" className="text-xs text-muted-foreground">Texture Scale</Label>
+                    <span className="text-xs font-mono">{(selectedLayer.textureScale ?? 1).toFixed(2)}×</span>
+                  </div>
+                  <Slider
+                    id="texture-scale"
+                    data-testid="slider-texture-scale"
+                    value={[selectedLayer.textureScale ?? 1]}
+                    onValueChange={(val) => onLayerChange?.(selectedLayer.id, { textureScale: val[0] })}
+                    min={0.25}
+                    max={4}
+                    step={0.05}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="texture-rotation" className="text-xs text-muted-foreground">Texture Rotation</Label>
+                    <span className="text-xs font-mono">{Math.round(selectedLayer.textureRotation ?? 0)}°</span>
+                  </div>
+                  <Slider
+                    id="texture-rotation"
+                    data-testid="slider-texture-rotation"
+                    value={[selectedLayer.textureRotation ?? 0]}
+                    onValueChange={(val) => onLayerChange?.(selectedLayer.id, { textureRotation: val[0] })}
+                    min={0}
+                    max={180}
+                    step={5}
+                  />
+                </div>
+              </>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="blend-mode" className="text-xs text-muted-foreground">Blend Mode</Label>
-              <Select value={blendMode} onValueChange={onBlendModeChange}>
+              <Select
+                value={selectedLayer.blendMode}
+                onValueChange={(mode) => onLayerChange?.(selectedLayer.id, { blendMode: mode })}
+              >
                 <SelectTrigger id="blend-mode" data-testid="select-blend-mode">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value="recolor">Natural (keep shading)</SelectItem>
                   <SelectItem value="normal">Normal</SelectItem>
                   <SelectItem value="multiply">Multiply</SelectItem>
                   <SelectItem value="overlay">Overlay</SelectItem>
@@ -105,6 +189,15 @@ export default function PropertiesPanel({
           </Card>
         )}
 
+        {estimate && (
+          <PriceEstimateCard
+            baseModels={baseModels}
+            baseModelId={baseModelId}
+            onBaseModelChange={onBaseModelChange}
+            estimate={estimate}
+          />
+        )}
+
         <Card className="p-4 space-y-4">
           <h3 className="text-sm font-medium">Export Settings</h3>
 
@@ -113,14 +206,17 @@ export default function PropertiesPanel({
             <Input
               id="file-name"
               data-testid="input-filename"
-              value={fileName}
-              onChange={(e) => setFileName(e.target.value)}
+              value={exportSettings.fileName}
+              onChange={(e) => updateExport({ fileName: e.target.value })}
             />
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="format" className="text-xs text-muted-foreground">Format</Label>
-            <Select value={format} onValueChange={setFormat}>
+            <Select
+              value={exportSettings.format}
+              onValueChange={(format) => updateExport({ format: format as ExportFormat })}
+            >
               <SelectTrigger id="format" data-testid="select-format">
                 <SelectValue />
               </SelectTrigger>
@@ -131,16 +227,55 @@ export default function PropertiesPanel({
             </Select>
           </div>
 
+          {exportSettings.format === "jpg" && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="jpeg-quality" className="text-xs text-muted-foreground">Quality</Label>
+                <span className="text-xs font-mono">{Math.round(exportSettings.quality * 100)}%</span>
+              </div>
+              <Slider
+                id="jpeg-quality"
+                data-testid="slider-jpeg-quality"
+                value={[exportSettings.quality * 100]}
+                onValueChange={(val) => updateExport({ quality: val[0] / 100 })}
+                min={50}
+                max={100}
+                step={1}
+              />
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="resolution" className="text-xs text-muted-foreground">Resolution</Label>
-            <Select value={resolution} onValueChange={setResolution}>
+            <Select
+              value={String(exportSettings.scale)}
+              onValueChange={(scale) => updateExport({ scale: Number(scale) })}
+            >
               <SelectTrigger id="resolution" data-testid="select-resolution">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="1x">Original (1x)</SelectItem>
-                <SelectItem value="2x">High (2x)</SelectItem>
-                <SelectItem value="4x">Ultra (4x)</SelectItem>
+                {EXPORT_SCALES.map(scale => (
+                  <SelectItem key={scale} value={String(scale)}>
+                    {scale === 1 ? "Original" : scale === 2 ? "High" : "Ultra"} ({scale}x)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="layout" className="text-xs text-muted-foreground">Layout</Label>
+            <Select
+              value={exportSettings.layout}
+              onValueChange={(layout) => updateExport({ layout: layout as ExportLayout })}
+            >
+              <SelectTrigger id="layout" data-testid="select-layout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="design">Design only</SelectItem>
+                <SelectItem value="before-after">Before / after</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -148,15 +283,42 @@ export default function PropertiesPanel({
           <div className="pt-2 space-y-2">
             <Button 
               className="w-full" 
-              onClick={() => {
-                const scale = resolution === "1x" ? 1 : resolution === "2x" ? 2 : 4;
-                onDownload?.(fileName, format, scale);
-              }}
-              data-testid="button-download"
+              disabled={!imageUrl || isDownloading}
+              onClick={onDownload}
+              data-testid="button-download-export"
             >
-              <Download className="h-4 w-4 mr-2" />
+              {isDownloading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
               Download Image
             </Button>
+            <Button 
+              variant="outline" 
+              className="w-full"
+              disabled={!onQuotation}
+              onClick={onQuotation}
+              data-testid="button-quotation"
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              Quotation PDF
+            </Button>
+            <Button 
+              variant="outline" 
+              className="w-full"
+              disabled={!onRequestQuote}
+              onClick={onRequestQuote}
+              data-testid="button-request-quote"
+            >
+              <MessageSquareQuote className="h-4 w-4 mr-2" />
+              Request Quote
+            </Button>
+            {imageUrl && !onQuotation && (
+              <p className="text-xs text-muted-foreground">
+                Quotations are available for uploaded photos saved to a project.
+              </p>
+            )}
             <Button 
               variant="outline" 
               className="w-full"
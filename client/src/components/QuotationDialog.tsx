@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface QuotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectName: string;
+  partCount: number;
+  isGenerating?: boolean;
+  onSubmit?: (notes: string) => void;
+}
+
+export default function QuotationDialog({
+  open,
+  onOpenChange,
+  projectName,
+  partCount,
+  isGenerating,
+  onSubmit
+}: QuotationDialogProps) {
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) setNotes("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Quotation Sheet</DialogTitle>
+          <DialogDescription>
+            A PDF of {projectName} with the before and after images and the finish of
+            each of the {partCount} colored part{partCount !== 1 ? "s" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit?.(notes.trim());
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="quotation-notes">Notes</Label>
+            <Textarea
+              id="quotation-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Quantities, dimensions, delivery details..."
+              maxLength={2000}
+              rows={5}
+              data-testid="input-quotation-notes"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isGenerating} data-testid="button-generate-quotation">
+              {isGenerating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <FileText className="h-4 w-4 mr-2" />
+              )}
+              Download PDF
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { insertQuoteRequestSchema, type InsertQuoteRequest } from "@shared/schema";
+
+const formSchema = insertQuoteRequestSchema.pick({
+  customerName: true,
+  email: true,
+}).extend({
+  phone: z.string().trim().max(32),
+  company: z.string().trim(),
+  quantity: z.coerce.number().int().min(1, "At least 1").max(100000),
+  message: z.string().trim().max(2000),
+});
+
+type QuoteRequestForm = z.infer<typeof formSchema>;
+
+// Project and image are added by the caller
+export type QuoteContactDetails = Omit<InsertQuoteRequest, "projectId" | "imageId">;
+
+const emptyForm: QuoteRequestForm = {
+  customerName: "",
+  email: "",
+  phone: "",
+  company: "",
+  quantity: 1,
+  message: "",
+};
+
+interface QuoteRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectName: string;
+  isSubmitting?: boolean;
+  onSubmit?: (details: QuoteContactDetails) => void;
+}
+
+export default function QuoteRequestDialog({
+  open,
+  onOpenChange,
+  projectName,
+  isSubmitting,
+  onSubmit
+}: QuoteRequestDialogProps) {
+  const form = useForm<QuoteRequestForm>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(emptyForm);
+  }, [open, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Request a Quote</DialogTitle>
+          <DialogDescription>
+            We will send pricing for {projectName} with the finishes you chose.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            className="space-y-4"
+            onSubmit={form.handleSubmit(values => onSubmit?.({
+              ...values,
+              phone: values.phone || null,
+              company: values.company || null,
+              message: values.message || null,
+            }))}
+          >
+            <FormField
+              control={form.control}
+              name="customerName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="name" data-testid="input-quote-name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" data-testid="input-quote-email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" autoComplete="tel" placeholder="Optional" data-testid="input-quote-phone" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="company"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Company</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="organization" placeholder="Optional" data-testid="input-quote-company" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} data-testid="input-quote-quantity" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={4}
+                      placeholder="Dimensions, delivery location, deadline..."
+                      data-testid="input-quote-message"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting} data-testid="button-submit-quote">
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Send Request
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
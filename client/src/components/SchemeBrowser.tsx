@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { matchSchemeEntries } from "@/lib/schemes";
+import type { ColorSchemeWithEntries } from "@shared/schema";
+import type { ColoredMask } from "./CanvasWorkspace";
+
+interface SchemeBrowserProps {
+  schemes: ColorSchemeWithEntries[];
+  layers: ColoredMask[]; // Parts on the canvas, matched by name and saved as a scheme
+  isSaving?: boolean;
+  onApply?: (scheme: ColorSchemeWithEntries) => void;
+  onSave?: (name: string) => void;
+  onDelete?: (id: string) => void;
+}
+
+export default function SchemeBrowser({
+  schemes,
+  layers,
+  isSaving,
+  onApply,
+  onSave,
+  onDelete
+}: SchemeBrowserProps) {
+  const [name, setName] = useState("");
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave?.(name.trim());
+    setName("");
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b space-y-2">
+        <h2 className="text-lg font-semibold mb-3 tracking-wide uppercase text-sm">Color Schemes</h2>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Hotel Lobby Set"
+            data-testid="input-scheme-name"
+          />
+          <Button
+            type="submit"
+            disabled={!name.trim() || layers.length === 0 || isSaving}
+            data-testid="button-save-scheme"
+          >
+            Save
+          </Button>
+        </form>
+        <p className="text-xs text-muted-foreground">
+          {layers.length === 0
+            ? "Color some parts to save them as a scheme."
+            : `Saves the finish of each of the ${layers.length} part${layers.length !== 1 ? "s" : ""} under its name.`}
+        </p>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-3">
+          {schemes.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">No saved schemes yet</p>
+          )}
+          {schemes.map(scheme => {
+            const matched = matchSchemeEntries(layers, scheme.entries).length;
+            return (
+              <div key={scheme.id} className="rounded-lg border p-3 space-y-2" data-testid={`scheme-${scheme.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate" title={scheme.name}>{scheme.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 flex-shrink-0"
+                    onClick={() => onDelete?.(scheme.id)}
+                    aria-label={`Delete ${scheme.name}`}
+                    data-testid={`button-delete-scheme-${scheme.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="space-y-1">
+                  {scheme.entries.map(entry => (
+                    <div key={entry.id} className="flex items-center gap-2 text-xs">
+                      <span
+                        className="h-3 w-3 rounded-sm border flex-shrink-0"
+                        style={{ backgroundColor: entry.fillHex }}
+                      />
+                      <span className="truncate">{entry.regionName}</span>
+                      <span className="ml-auto font-mono text-muted-foreground">{entry.fillHex}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between gap-2 pt-1">
+                  <span className="text-xs text-muted-foreground">
+                    {layers.length > 0 ? `Matches ${matched} of ${layers.length} parts` : "No parts to color"}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={matched === 0}
+                    onClick={() => onApply?.(scheme)}
+                    data-testid={`button-apply-scheme-${scheme.id}`}
+                  >
+                    Apply
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
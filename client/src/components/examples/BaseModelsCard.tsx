@@ -0,0 +1,27 @@
+import { useState } from 'react';
+import BaseModelsCard from '../BaseModelsCard';
+import type { BaseModel } from '@shared/schema';
+
+const now = new Date();
+
+export default function BaseModelsCardExample() {
+  const [baseModels, setBaseModels] = useState<BaseModel[]>([
+    { id: 'sofa', name: 'Three-Seat Sofa', basePrice: '1450', areaWeighted: true, createdAt: now, updatedAt: now },
+    { id: 'chair', name: 'Dining Chair', basePrice: '320', areaWeighted: false, createdAt: now, updatedAt: now }
+  ]);
+
+  return (
+    <div className="max-w-3xl p-4">
+      <BaseModelsCard
+        baseModels={baseModels}
+        onSave={(id, values) => {
+          console.log('Save base model:', id, values);
+          if (id) {
+            setBaseModels(models => models.map(model => model.id === id ? { ...model, ...values } : model));
+          }
+        }}
+        onDelete={(id) => setBaseModels(models => models.filter(model => model.id !== id))}
+      />
+    </div>
+  );
+}
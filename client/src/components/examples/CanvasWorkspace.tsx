@@ -1,19 +1,39 @@
 import { useState } from 'react';
-import CanvasWorkspace from '../CanvasWorkspace';
+import { CanvasWorkspace } from '../CanvasWorkspace';
+import { useMaskLayers } from '@/hooks/use-mask-layers';
+import { DEFAULT_BLEND_MODE } from '@/lib/masks';
 import sofaImage from '@assets/generated_images/Modern_grey_sofa_furniture_4bccca05.png';
 
 export default function CanvasWorkspaceExample() {
-  const [hasSelection, setHasSelection] = useState(false);
+  const layers = useMaskLayers();
+  const [zoom, setZoom] = useState(100);
 
   return (
     <div className="h-[700px] w-full max-w-4xl border rounded-lg overflow-hidden">
       <CanvasWorkspace 
         imageUrl={sofaImage}
-        selectedColor="#B76E79"
-        onSelectionChange={(selection) => {
-          setHasSelection(selection);
-          console.log('Selection changed:', selection);
+        masks={layers.masks}
+        selectedMaskId={layers.selectedMaskId}
+        zoom={zoom}
+        onZoomChange={setZoom}
+        onMaskSegmented={(segmentation) => {
+          layers.addMask({
+            ...segmentation,
+            id: crypto.randomUUID(),
+            name: `Part ${layers.masks.length + 1}`,
+            color: "#B76E79",
+            opacity: 1,
+            blendMode: DEFAULT_BLEND_MODE,
+            visible: true
+          });
+          console.log('Part detected:', segmentation);
         }}
+        onMaskRefined={layers.updateMask}
+        onReset={() => layers.load([])}
+        onUndo={layers.undo}
+        onRedo={layers.redo}
+        canUndo={layers.canUndo}
+        canRedo={layers.canRedo}
       />
     </div>
   );
@@ -1,9 +1,10 @@
 import { useState } from 'react';
 import ColorPalette from '../ColorPalette';
-import type { ColorItem } from '@/data/colorPalette';
+import type { ColorItem } from '@shared/palette';
 
 export default function ColorPaletteExample() {
   const [selectedColor, setSelectedColor] = useState<ColorItem | null>(null);
+  const [sampledColor, setSampledColor] = useState<string | null>("#7A5230");
   
   const recentColors: ColorItem[] = [
     { id: "ss02", code: "SS02", name: "Hairline S/S", hexColor: "#C0C0C0" },
@@ -20,6 +21,8 @@ export default function ColorPaletteExample() {
           console.log('Selected color:', color);
         }}
         recentColors={recentColors}
+        sampledColor={sampledColor}
+        onClearSample={() => setSampledColor(null)}
       />
     </div>
   );
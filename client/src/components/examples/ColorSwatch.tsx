@@ -16,6 +16,8 @@ export default function ColorSwatchExample() {
         color={{ id: "pc8", code: "PC8", name: "Coffee", hexColor: "#6F4E37" }}
         size="lg"
         onClick={() => console.log('Large color clicked')}
+        isFavorite
+        onToggleFavorite={() => console.log('Favorite toggled')}
       />
     </div>
   );
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import LayersPanel from '../LayersPanel';
+import type { ColoredMask } from '../CanvasWorkspace';
+import sofaImage from '@assets/generated_images/Modern_grey_sofa_furniture_4bccca05.png';
+
+const fullMask = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACXBIWXMAAAPoAAAD6AG1e1JrAAAACklEQVR4nGP4DwABAQEAsTj2FAAAAABJRU5ErkJggg==';
+
+function exampleLayer(id: string, name: string, color: string): ColoredMask {
+  return {
+    id,
+    name,
+    maskUrl: fullMask,
+    color,
+    opacity: 0.7,
+    blendMode: 'multiply',
+    visible: true,
+    clickX: 0,
+    clickY: 0,
+    points: [{ x: 0, y: 0, label: 1 }],
+    boundingBox: { x: 0, y: 0, width: 1, height: 1 },
+    area: 1,
+    centroid: { x: 0, y: 0 }
+  };
+}
+
+export default function LayersPanelExample() {
+  const [layers, setLayers] = useState<ColoredMask[]>([
+    exampleLayer('frame', 'Frame', '#2C2C2C'),
+    exampleLayer('seat', 'Seat Cushion', '#B76E79'),
+    exampleLayer('legs', 'Legs', '#C19A6B'),
+  ]);
+  const [selectedId, setSelectedId] = useState<string | null>('seat');
+
+  return (
+    <div className="w-80 p-4 border rounded-lg bg-card">
+      <LayersPanel
+        imageUrl={sofaImage}
+        layers={layers}
+        selectedLayerId={selectedId}
+        onSelect={setSelectedId}
+        onChange={(id, changes) => setLayers(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l))}
+        onMove={(id, toIndex) => setLayers(prev => {
+          const moved = prev.find(l => l.id === id)!;
+          const rest = prev.filter(l => l.id !== id);
+          rest.splice(toIndex, 0, moved);
+          return rest;
+        })}
+        onDelete={(id) => setLayers(prev => prev.filter(l => l.id !== id))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import PaletteColorDialog from '../PaletteColorDialog';
+import { Button } from '@/components/ui/button';
+
+export default function PaletteColorDialogExample() {
+  const [open, setOpen] = useState(false);
+
+  const mockCategories = [
+    { id: 'stainless-steel', name: 'Stainless Steel Finishing', surcharge: '180', sortOrder: 0, createdAt: new Date(), updatedAt: new Date() },
+    { id: 'wooden-finishing', name: 'Wooden Finishing', surcharge: '150', sortOrder: 1, createdAt: new Date(), updatedAt: new Date() },
+  ];
+
+  return (
+    <div className="p-8">
+      <Button onClick={() => setOpen(true)} data-testid="button-open-palette-dialog-example">
+        Add Finish
+      </Button>
+      <PaletteColorDialog
+        open={open}
+        onOpenChange={setOpen}
+        categories={mockCategories}
+        defaultCategoryId="wooden-finishing"
+        onSubmit={(values) => {
+          console.log('Save finish:', values);
+          setOpen(false);
+        }}
+      />
+    </div>
+  );
+}
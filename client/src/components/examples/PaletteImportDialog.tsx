@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import PaletteImportDialog from '../PaletteImportDialog';
+import { Button } from '@/components/ui/button';
+import type { PaletteImportPreview } from '@shared/schema';
+
+export default function PaletteImportDialogExample() {
+  const [open, setOpen] = useState(false);
+
+  const mockPreview: PaletteImportPreview = {
+    colors: [
+      { category: 'Wooden Finishing', code: 'SQ7', name: 'Smoked Oak', hexColor: '#5A4632' },
+      { category: 'Wooden Finishing', code: 'SQ3', name: 'Classic Teak', hexColor: '#B07A12' },
+      { category: 'Outdoor Finishes', code: 'SQ7', name: 'Sand Powder Coat', hexColor: '#D8C8A8' },
+    ],
+    added: [0, 2],
+    updated: [{
+      index: 1,
+      before: {
+        id: 'sq3', categoryId: 'wooden-finishing', code: 'SQ3', name: 'Classic Teak', hexColor: '#B8860B',
+        textureUrl: '/textures/wood-grain.jpg', tags: ['wood', 'satin'], surcharge: null, sortOrder: 2, retired: false, createdAt: new Date(), updatedAt: new Date()
+      }
+    }],
+    unchanged: [],
+    newCategories: ['Outdoor Finishes'],
+    duplicates: [{ code: 'SQ7', rows: [0, 2], existing: [] }],
+    errors: [{ row: 4, message: 'hexColor: Expected a #RRGGBB color' }]
+  };
+
+  return (
+    <div className="p-8">
+      <Button onClick={() => setOpen(true)} data-testid="button-open-import-example">
+        Preview Import
+      </Button>
+      <PaletteImportDialog
+        open={open}
+        onOpenChange={setOpen}
+        filename="supplier-finishes.csv"
+        preview={mockPreview}
+        onImport={(colors) => {
+          console.log('Import:', colors);
+          setOpen(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import PriceEstimateCard from '../PriceEstimateCard';
+import { colorPalette } from '@shared/palette';
+import { estimatePrice, type PricedRegion } from '@shared/pricing';
+import type { BaseModel } from '@shared/schema';
+
+const now = new Date();
+
+const baseModels: BaseModel[] = [
+  { id: 'sofa', name: 'Three-Seat Sofa', basePrice: '1450', areaWeighted: true, createdAt: now, updatedAt: now },
+  { id: 'chair', name: 'Dining Chair', basePrice: '320', areaWeighted: false, createdAt: now, updatedAt: now }
+];
+
+const regions: PricedRegion[] = [
+  { id: 'frame', name: 'Frame', colorId: 'ss03', area: 3000 },
+  { id: 'legs', name: 'Legs', colorId: 'pc6', area: 1000 }
+];
+
+export default function PriceEstimateCardExample() {
+  const [baseModelId, setBaseModelId] = useState<string | null>('sofa');
+  const model = baseModels.find(candidate => candidate.id === baseModelId);
+
+  return (
+    <div className="w-80 p-4">
+      <PriceEstimateCard
+        baseModels={baseModels}
+        baseModelId={baseModelId}
+        onBaseModelChange={setBaseModelId}
+        estimate={estimatePrice(model, regions, colorPalette)}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
+import { useState } from 'react';
 import PropertiesPanel from '../PropertiesPanel';
+import { DEFAULT_EXPORT_SETTINGS } from '@/lib/export';
+import { colorPalette } from '@shared/palette';
+import { estimatePrice } from '@shared/pricing';
 
 export default function PropertiesPanelExample() {
+  const [exportSettings, setExportSettings] = useState(DEFAULT_EXPORT_SETTINGS);
   const selectedColor = {
     id: "ss03",
     code: "SS03",
@@ -12,7 +17,12 @@ export default function PropertiesPanelExample() {
     <div className="h-[700px] w-80 border rounded-lg bg-card">
       <PropertiesPanel 
         selectedColor={selectedColor}
-        onDownload={() => console.log('Download clicked')}
+        estimate={estimatePrice({ basePrice: 320, areaWeighted: false }, [
+          { id: 'frame', name: 'Frame', colorId: selectedColor.id, area: 1 }
+        ], colorPalette)}
+        exportSettings={exportSettings}
+        onExportSettingsChange={setExportSettings}
+        onDownload={() => console.log('Download clicked', exportSettings)}
         onSave={() => console.log('Save clicked')}
       />
     </div>
@@ -0,0 +1,25 @@
+import { useState } from 'react';
+import QuotationDialog from '../QuotationDialog';
+import { Button } from '@/components/ui/button';
+
+export default function QuotationDialogExample() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="p-8">
+      <Button onClick={() => setOpen(true)} data-testid="button-open-quotation-dialog-example">
+        Quotation PDF
+      </Button>
+      <QuotationDialog
+        open={open}
+        onOpenChange={setOpen}
+        projectName="Modern Grey Sofa"
+        partCount={3}
+        onSubmit={(notes) => {
+          console.log('Generate quotation:', notes);
+          setOpen(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { useState } from 'react';
+import QuoteRequestDialog from '../QuoteRequestDialog';
+import { Button } from '@/components/ui/button';
+
+export default function QuoteRequestDialogExample() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="p-8">
+      <Button onClick={() => setOpen(true)} data-testid="button-open-quote-dialog-example">
+        Request Quote
+      </Button>
+      <QuoteRequestDialog
+        open={open}
+        onOpenChange={setOpen}
+        projectName="Modern Grey Sofa"
+        onSubmit={(details) => {
+          console.log('Request quote:', details);
+          setOpen(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import SchemeBrowser from '../SchemeBrowser';
+import type { ColoredMask } from '../CanvasWorkspace';
+import type { ColorSchemeEntry, ColorSchemeWithEntries } from '@shared/schema';
+
+const fullMask = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACXBIWXMAAAPoAAAD6AG1e1JrAAAACklEQVR4nGP4DwABAQEAsTj2FAAAAABJRU5ErkJggg==';
+
+function exampleLayer(id: string, name: string, color: string): ColoredMask {
+  return {
+    id,
+    name,
+    maskUrl: fullMask,
+    color,
+    opacity: 1,
+    blendMode: 'recolor',
+    visible: true,
+    clickX: 0,
+    clickY: 0,
+    points: [{ x: 0, y: 0, label: 1 }],
+    boundingBox: { x: 0, y: 0, width: 1, height: 1 },
+    area: 1,
+    centroid: { x: 0, y: 0 }
+  };
+}
+
+function exampleEntry(id: string, regionName: string, fillHex: string): ColorSchemeEntry {
+  return {
+    id,
+    schemeId: 'lobby',
+    regionName,
+    colorId: null,
+    fillHex,
+    opacity: '1',
+    blendMode: 'recolor',
+    textureUrl: null,
+    textureScale: '1',
+    textureRotation: 0,
+    sortOrder: 0
+  };
+}
+
+const schemes: ColorSchemeWithEntries[] = [
+  {
+    id: 'lobby',
+    name: 'Hotel Lobby Set',
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    entries: [
+      exampleEntry('frame', 'Frame', '#B76E79'),
+      exampleEntry('seat', 'Seat', '#6F4E37'),
+      exampleEntry('top', 'Top', '#E8E4DC'),
+    ]
+  }
+];
+
+export default function SchemeBrowserExample() {
+  return (
+    <div className="h-[500px] w-80 border rounded-lg bg-card">
+      <SchemeBrowser
+        schemes={schemes}
+        layers={[
+          exampleLayer('frame', 'Frame', '#2C2C2C'),
+          exampleLayer('seat', 'Sofa Seat', '#C0C0C0'),
+        ]}
+        onApply={(scheme) => console.log('Apply scheme:', scheme.name)}
+        onSave={(name) => console.log('Save scheme:', name)}
+        onDelete={(id) => console.log('Delete scheme:', id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from "react";
+
+export type SaveStatus = "saved" | "saving" | "offline";
+
+const AUTOSAVE_INTERVAL_MS = 3000;
+
+// Periodically writes the latest value through `save` when it has changed.
+// Failed saves are retried on the next tick and reported as "offline".
+export function useAutosave<T>(
+  value: T | undefined,
+  save: (value: T) => Promise<void>,
+  enabled: boolean,
+  intervalMs = AUTOSAVE_INTERVAL_MS
+): SaveStatus {
+  const [status, setStatus] = useState<SaveStatus>("saved");
+  const latest = useRef(value);
+  const dirty = useRef(false);
+  const inFlight = useRef(false);
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  useEffect(() => {
+    latest.current = value;
+    if (value !== undefined) {
+      dirty.current = true;
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const tick = async () => {
+      if (!dirty.current || inFlight.current || latest.current === undefined) return;
+      if (!navigator.onLine) {
+        setStatus("offline");
+        return;
+      }
+
+      inFlight.current = true;
+      dirty.current = false;
+      setStatus("saving");
+      try {
+        await saveRef.current(latest.current);
+        setStatus(dirty.current ? "saving" : "saved");
+      } catch (error) {
+        console.error("Autosave failed:", error);
+        dirty.current = true;
+        setStatus("offline");
+      } finally {
+        inFlight.current = false;
+      }
+    };
+
+    const handleOffline = () => setStatus("offline");
+    const handleOnline = () => {
+      if (!dirty.current) setStatus("saved");
+      tick();
+    };
+
+    const interval = setInterval(tick, intervalMs);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener("online", handleOnline);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [enabled, intervalMs]);
+
+  return status;
+}
@@ -0,0 +1,26 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { BaseModel, InsertBaseModel } from "@shared/schema";
+
+const BASE_MODELS_KEY = ["/api/base-models"];
+
+// Priced base models with create, update and delete for the admin
+export function useBaseModels() {
+  const queryClient = useQueryClient();
+  const { data: baseModels = [], isLoading } = useQuery<BaseModel[]>({ queryKey: BASE_MODELS_KEY });
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: BASE_MODELS_KEY });
+
+  const saveBaseModel = useMutation({
+    mutationFn: ({ id, values }: { id?: string; values: Partial<InsertBaseModel> }) => id
+      ? apiRequest("PATCH", `/api/base-models/${id}`, values)
+      : apiRequest("POST", "/api/base-models", values),
+    onSuccess: invalidate
+  });
+
+  const deleteBaseModel = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/base-models/${id}`),
+    onSuccess: invalidate
+  });
+
+  return { baseModels, isLoading, saveBaseModel, deleteBaseModel };
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { ColoredMask } from "@/components/CanvasWorkspace";
+
+const SAVE_DELAY_MS = 600;
+
+interface SavedColor {
+  applicationId?: string;
+  signature: string;
+  layout: string; // Stack position and visibility as last saved
+  queue: Promise<void>; // Serializes requests so a POST finishes before its PATCHes
+}
+
+function signatureOf(mask: ColoredMask) {
+  return [
+    mask.maskId, mask.colorId, mask.color, mask.opacity, mask.blendMode, mask.name,
+    mask.textureUrl, mask.textureScale, mask.textureRotation
+  ].join("|");
+}
+
+const layoutOf = (mask: ColoredMask, index: number) => `${index}|${mask.visible}`;
+
+// Mirrors each saved mask's color, opacity, blend mode, texture, name, stack
+// position and visibility into colorApplications, so server renders stack
+// and hide parts as the editor does. Changes are debounced per mask; masks
+// without a server maskId are skipped.
+export function useColorPersistence(projectId: string | undefined, masks: ColoredMask[]) {
+  const saved = useRef(new Map<string, SavedColor>());
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const enqueue = (entry: SavedColor, task: (entry: SavedColor) => Promise<void>) => {
+    entry.queue = entry.queue
+      .then(() => task(entry))
+      .catch(error => console.error("Failed to save color:", error));
+  };
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    masks.forEach((mask, index) => {
+      if (!mask.maskId) return;
+
+      const signature = signatureOf(mask);
+      const layout = layoutOf(mask, index);
+      let entry = saved.current.get(mask.id);
+
+      // Restored masks already have their color on the server. Their layout
+      // is written once: an autosaved snapshot may stack them differently,
+      // and rows saved before the stack order was stored all share 0.
+      if (!entry && mask.colorApplicationId) {
+        entry = {
+          applicationId: mask.colorApplicationId,
+          signature,
+          layout: "",
+          queue: Promise.resolve()
+        };
+        saved.current.set(mask.id, entry);
+      }
+
+      if (entry?.signature === signature && entry.layout === layout) return;
+      if (!entry) {
+        entry = { signature: "", layout: "", queue: Promise.resolve() };
+        saved.current.set(mask.id, entry);
+      }
+      entry.signature = signature;
+      entry.layout = layout;
+
+      const target = entry;
+      clearTimeout(timers.current.get(mask.id));
+      timers.current.set(mask.id, setTimeout(() => {
+        timers.current.delete(mask.id);
+        enqueue(target, async (current) => {
+          const payload = {
+            sortOrder: index,
+            visible: mask.visible,
+            maskId: mask.maskId,
+            colorId: mask.colorId ?? null,
+            fillHex: mask.color,
+            opacity: String(mask.opacity),
+            blendMode: mask.blendMode,
+            regionName: mask.name,
+            textureUrl: mask.textureUrl ?? null,
+            textureScale: String(mask.textureScale ?? 1),
+            textureRotation: Math.round(mask.textureRotation ?? 0)
+          };
+
+          if (current.applicationId) {
+            await apiRequest("PATCH", `/api/colors/${current.applicationId}`, payload);
+          } else {
+            const response = await apiRequest("POST", "/api/colors", { ...payload, projectId });
+            const created = await response.json();
+            current.applicationId = created.id;
+          }
+        });
+      }, SAVE_DELAY_MS));
+    });
+  }, [projectId, masks]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  // Removes the stored color for a mask that was deleted from the canvas
+  const deleteColor = useCallback((mask: ColoredMask) => {
+    clearTimeout(timers.current.get(mask.id));
+    timers.current.delete(mask.id);
+
+    const entry = saved.current.get(mask.id) ?? (mask.colorApplicationId ? {
+      applicationId: mask.colorApplicationId,
+      signature: "",
+      layout: "",
+      queue: Promise.resolve()
+    } : undefined);
+    saved.current.delete(mask.id);
+    if (!entry) return;
+
+    enqueue(entry, async (current) => {
+      if (current.applicationId) {
+        await apiRequest("DELETE", `/api/colors/${current.applicationId}`);
+      }
+    });
+  }, []);
+
+  return { deleteColor };
+}
@@ -0,0 +1,26 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { ColorSchemeWithEntries, InsertColorScheme } from "@shared/schema";
+
+const SCHEMES_KEY = ["/api/schemes"];
+
+// Saved color schemes with create and delete
+export function useColorSchemes() {
+  const queryClient = useQueryClient();
+  const { data: schemes = [], isLoading } = useQuery<ColorSchemeWithEntries[]>({ queryKey: SCHEMES_KEY });
+
+  const createScheme = useMutation({
+    mutationFn: async (scheme: InsertColorScheme): Promise<ColorSchemeWithEntries> => {
+      const response = await apiRequest("POST", "/api/schemes", scheme);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SCHEMES_KEY })
+  });
+
+  const deleteScheme = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/schemes/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SCHEMES_KEY })
+  });
+
+  return { schemes, isLoading, createScheme, deleteScheme };
+}
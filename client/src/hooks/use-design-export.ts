@@ -0,0 +1,33 @@
+import { useCallback, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { exportDesign, type ExportSettings } from "@/lib/export";
+import { loadImage, type TintLayer } from "@/lib/masks";
+
+// Downloads the design with the given settings, reporting failures as toasts
+export function useDesignExport() {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const downloadDesign = useCallback(async (
+    image: HTMLImageElement | string,
+    layers: TintLayer[],
+    settings: ExportSettings
+  ) => {
+    setIsExporting(true);
+    try {
+      const baseImage = typeof image === "string" ? await loadImage(image) : image;
+      await exportDesign(baseImage, layers, settings);
+    } catch (error) {
+      console.error("Failed to export design:", error);
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Could not render the design. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [toast]);
+
+  return { downloadDesign, isExporting };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { usePalette } from "@/hooks/use-palette";
+import type { ColorItem } from "@shared/palette";
+import type { FavoriteColor } from "@shared/schema";
+
+const FAVORITES_KEY = ["/api/favorites"];
+
+// Starred palette finishes. Toggling updates the list immediately and rolls
+// back if the server rejects it.
+export function useFavoriteColors() {
+  const queryClient = useQueryClient();
+  const { findColor } = usePalette();
+  const { data = [] } = useQuery<FavoriteColor[]>({ queryKey: FAVORITES_KEY });
+
+  const mutation = useMutation({
+    mutationFn: ({ colorId, favorite }: { colorId: string; favorite: boolean }) =>
+      apiRequest(favorite ? "PUT" : "DELETE", `/api/favorites/${encodeURIComponent(colorId)}`),
+    onMutate: async ({ colorId, favorite }) => {
+      await queryClient.cancelQueries({ queryKey: FAVORITES_KEY });
+      const previous = queryClient.getQueryData<FavoriteColor[]>(FAVORITES_KEY);
+      queryClient.setQueryData<FavoriteColor[]>(FAVORITES_KEY, (prev = []) => favorite
+        ? [{ id: `pending-${colorId}`, colorId, createdAt: new Date() }, ...prev.filter(f => f.colorId !== colorId)]
+        : prev.filter(f => f.colorId !== colorId));
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      console.error("Failed to update favorite:", error);
+      queryClient.setQueryData(FAVORITES_KEY, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: FAVORITES_KEY })
+  });
+
+  const favoriteIds = useMemo(() => new Set(data.map(favorite => favorite.colorId)), [data]);
+
+  // Retired or deleted finishes drop out of the list
+  const favoriteColors = useMemo(
+    () => data.map(favorite => findColor(favorite.colorId)).filter((color): color is ColorItem => !!color),
+    [data, findColor]
+  );
+
+  const { mutate } = mutation;
+  const toggleFavorite = useCallback((color: ColorItem) => {
+    mutate({ colorId: color.id, favorite: !favoriteIds.has(color.id) });
+  }, [mutate, favoriteIds]);
+
+  return { favoriteColors, favoriteIds, toggleFavorite };
+}
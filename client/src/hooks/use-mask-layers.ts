@@ -0,0 +1,234 @@
+import { useCallback, useRef, useState } from "react";
+import type { ColoredMask } from "@/components/CanvasWorkspace";
+
+// Reversible edits to the layer list. Undo applies the inverse command.
+export type LayerCommand =
+  | { type: "add"; mask: ColoredMask; index: number }
+  | { type: "remove"; mask: ColoredMask; index: number }
+  | { type: "update"; id: string; before: Partial<ColoredMask>; after: Partial<ColoredMask>; at: number }
+  | { type: "move"; id: string; from: number; to: number }
+  | { type: "batch"; commands: LayerCommand[] }; // Several edits undone together
+
+interface LayerHistory {
+  past: LayerCommand[];
+  future: LayerCommand[];
+}
+
+interface MaskLayersOptions {
+  // Called when a mask leaves the canvas, including through undo/redo
+  onMaskRemoved?: (mask: ColoredMask) => void;
+}
+
+const HISTORY_LIMIT = 100;
+
+// Repeated updates to the same fields of one mask (slider drags, typing a
+// name) within this window collapse into a single undo step
+const MERGE_WINDOW_MS = 800;
+
+// Fields that belong to the canvas session rather than the edit itself
+const SESSION_FIELDS = ["visible"] as const;
+
+function invert(command: LayerCommand): LayerCommand {
+  switch (command.type) {
+    case "add":
+      return { type: "remove", mask: command.mask, index: command.index };
+    case "remove":
+      return { type: "add", mask: command.mask, index: command.index };
+    case "update":
+      return { ...command, before: command.after, after: command.before };
+    case "move":
+      return { ...command, from: command.to, to: command.from };
+    case "batch":
+      return { type: "batch", commands: command.commands.map(invert).reverse() };
+  }
+}
+
+function applyCommand(masks: ColoredMask[], command: LayerCommand): ColoredMask[] {
+  switch (command.type) {
+    case "add": {
+      const next = [...masks];
+      next.splice(Math.min(command.index, next.length), 0, command.mask);
+      return next;
+    }
+    case "remove":
+      return masks.filter(mask => mask.id !== command.mask.id);
+    case "update":
+      return masks.map(mask => mask.id === command.id ? { ...mask, ...command.after } : mask);
+    case "move": {
+      const fromIndex = masks.findIndex(mask => mask.id === command.id);
+      if (fromIndex === -1) return masks;
+      const next = [...masks];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(Math.max(0, Math.min(command.to, next.length)), 0, moved);
+      return next;
+    }
+    case "batch":
+      return command.commands.reduce(applyCommand, masks);
+  }
+}
+
+function sameKeys(a: Partial<ColoredMask>, b: Partial<ColoredMask>) {
+  const keysA = Object.keys(a).sort().join();
+  return keysA === Object.keys(b).sort().join();
+}
+
+function updateCommand(masks: ColoredMask[], id: string, changes: Partial<ColoredMask>): LayerCommand | null {
+  const mask = masks.find(m => m.id === id);
+  if (!mask) return null;
+
+  const before: Partial<ColoredMask> = {};
+  for (const key of Object.keys(changes) as (keyof ColoredMask)[]) {
+    (before as Record<string, unknown>)[key] = mask[key];
+  }
+  return { type: "update", id, before, after: changes, at: Date.now() };
+}
+
+// Ordered list of colored parts (last = drawn on top) plus the selected part,
+// with an undo/redo history of every edit made since the canvas was loaded
+export function useMaskLayers({ onMaskRemoved }: MaskLayersOptions = {}) {
+  const [masks, setMasks] = useState<ColoredMask[]>([]);
+  const [selectedMaskId, setSelectedMaskId] = useState<string | null>(null);
+  const [history, setHistory] = useState<LayerHistory>({ past: [], future: [] });
+
+  // Commands are built from the latest state synchronously, so side effects
+  // (like deleting a saved color) run once and outside state updaters
+  const masksRef = useRef(masks);
+  masksRef.current = masks;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const onMaskRemovedRef = useRef(onMaskRemoved);
+  onMaskRemovedRef.current = onMaskRemoved;
+
+  const selectedMask = masks.find(mask => mask.id === selectedMaskId) ?? null;
+
+  const run = useCallback((command: LayerCommand) => {
+    const next = applyCommand(masksRef.current, command);
+    masksRef.current = next;
+    setMasks(next);
+
+    for (const step of command.type === "batch" ? command.commands : [command]) {
+      if (step.type === "remove") {
+        setSelectedMaskId(prev => prev === step.mask.id ? null : prev);
+        onMaskRemovedRef.current?.(step.mask);
+      } else if (step.type === "add") {
+        setSelectedMaskId(step.mask.id);
+      }
+    }
+  }, []);
+
+  const record = useCallback((command: LayerCommand) => {
+    const { past } = historyRef.current;
+    const last = past[past.length - 1];
+
+    let nextPast: LayerCommand[];
+    if (
+      command.type === "update" && last?.type === "update" &&
+      last.id === command.id && sameKeys(last.after, command.after) &&
+      command.at - last.at < MERGE_WINDOW_MS
+    ) {
+      nextPast = [...past.slice(0, -1), { ...command, before: last.before }];
+    } else {
+      nextPast = [...past, command].slice(-HISTORY_LIMIT);
+    }
+
+    const next = { past: nextPast, future: [] };
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const load = useCallback((layers: ColoredMask[], selectedId: string | null = null) => {
+    masksRef.current = layers;
+    setMasks(layers);
+    setSelectedMaskId(selectedId);
+    historyRef.current = { past: [], future: [] };
+    setHistory(historyRef.current);
+  }, []);
+
+  const addMask = useCallback((mask: ColoredMask) => {
+    const command: LayerCommand = { type: "add", mask, index: masksRef.current.length };
+    run(command);
+    record(command);
+  }, [run, record]);
+
+  const updateMask = useCallback((id: string, changes: Partial<ColoredMask>) => {
+    const command = updateCommand(masksRef.current, id, changes);
+    if (!command) return;
+    run(command);
+
+    // Hiding a part is a view toggle, not an edit worth undoing
+    if (!Object.keys(changes).every(key => (SESSION_FIELDS as readonly string[]).includes(key))) {
+      record(command);
+    }
+  }, [run, record]);
+
+  // Edits several masks as a single undo step, e.g. applying a color scheme
+  const updateMasks = useCallback((updates: { id: string; changes: Partial<ColoredMask> }[]) => {
+    const commands = updates
+      .map(({ id, changes }) => updateCommand(masksRef.current, id, changes))
+      .filter((command): command is LayerCommand => command !== null);
+    if (commands.length === 0) return;
+
+    const command: LayerCommand = { type: "batch", commands };
+    run(command);
+    record(command);
+  }, [run, record]);
+
+  const removeMask = useCallback((id: string) => {
+    const index = masksRef.current.findIndex(mask => mask.id === id);
+    if (index === -1) return;
+
+    // The saved color goes away with the mask, so a restored copy must save a new one
+    const { colorApplicationId: _saved, ...mask } = masksRef.current[index];
+    const command: LayerCommand = { type: "remove", mask, index };
+    run(command);
+    record(command);
+  }, [run, record]);
+
+  const moveMask = useCallback((id: string, toIndex: number) => {
+    const fromIndex = masksRef.current.findIndex(mask => mask.id === id);
+    if (fromIndex === -1 || fromIndex === toIndex) return;
+
+    const command: LayerCommand = { type: "move", id, from: fromIndex, to: toIndex };
+    run(command);
+    record(command);
+  }, [run, record]);
+
+  const undo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const command = past[past.length - 1];
+    if (!command) return;
+
+    run(invert(command));
+    const next = { past: past.slice(0, -1), future: [command, ...future] };
+    historyRef.current = next;
+    setHistory(next);
+  }, [run]);
+
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const command = future[0];
+    if (!command) return;
+
+    run(command);
+    const next = { past: [...past, command], future: future.slice(1) };
+    historyRef.current = next;
+    setHistory(next);
+  }, [run]);
+
+  return {
+    masks,
+    selectedMaskId,
+    selectedMask,
+    load,
+    addMask,
+    updateMask,
+    updateMasks,
+    removeMask,
+    moveMask,
+    selectMask: setSelectedMaskId,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { colorPalette, findPaletteEntry, toColorCategories, type ColorCategory } from "@shared/palette";
+import type { PaletteCategoryWithColors } from "@shared/schema";
+
+function usePaletteCategories(queryKey: string) {
+  const { data, isLoading, isError } = useQuery<PaletteCategoryWithColors[]>({ queryKey: [queryKey] });
+
+  const categories = useMemo<ColorCategory[]>(
+    () => data && data.length > 0 ? toColorCategories(data) : colorPalette,
+    [data]
+  );
+
+  return { categories, isLoading, isError };
+}
+
+// Active palette from the server. Until it loads (or if it cannot), the
+// bundled seed palette is used so the picker is never empty.
+export function usePalette() {
+  const { categories, isLoading, isError } = usePaletteCategories("/api/palette");
+
+  const findColor = useCallback((id?: string) => findPaletteEntry(categories, id)?.color, [categories]);
+
+  return { categories, findColor, isLoading, isError };
+}
+
+// Pricing also covers retired finishes, which parts may still be colored
+// with, so the estimate matches the one the server stores with a quote.
+export function usePricingPalette() {
+  return usePaletteCategories("/api/palette?includeRetired=true").categories;
+}
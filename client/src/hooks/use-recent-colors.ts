@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { usePalette } from "@/hooks/use-palette";
+import type { ColorItem } from "@shared/palette";
+import type { RecentColor } from "@shared/schema";
+
+const RECENT_COLORS_LIMIT = 8;
+
+// Recently used colors for the open project, or the global list when no
+// project is open yet. Selections are shown immediately and written through.
+export function useRecentColors(projectId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { findColor } = usePalette();
+  const url = projectId ? `/api/projects/${projectId}/recent-colors` : "/api/recent-colors";
+
+  const { data = [] } = useQuery<RecentColor[]>({ queryKey: [url] });
+
+  const mutation = useMutation({
+    mutationFn: async (color: ColorItem) => {
+      const response = await apiRequest("POST", url, {
+        hex: color.hexColor,
+        colorId: color.id,
+        colorCode: color.code || null,
+        colorName: color.name
+      });
+      return response.json();
+    },
+    onMutate: async (color) => {
+      await queryClient.cancelQueries({ queryKey: [url] });
+      queryClient.setQueryData<RecentColor[]>([url], (prev = []) => [
+        {
+          id: `pending-${color.id}`,
+          projectId: projectId ?? null,
+          hex: color.hexColor,
+          colorId: color.id,
+          colorCode: color.code || null,
+          colorName: color.name,
+          usedAt: new Date()
+        },
+        ...prev.filter(recent => recent.colorId !== color.id)
+      ].slice(0, RECENT_COLORS_LIMIT));
+    },
+    onError: (error) => console.error("Failed to save recent color:", error),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      if (projectId) queryClient.invalidateQueries({ queryKey: ["/api/recent-colors"] });
+    }
+  });
+
+  // Palette entries win so renamed or retextured finishes show current data
+  const recentColors = useMemo<ColorItem[]>(() => data.map(recent => findColor(recent.colorId ?? undefined) ?? {
+    id: recent.colorId ?? recent.id,
+    code: recent.colorCode ?? "",
+    name: recent.colorName ?? recent.hex,
+    hexColor: recent.hex
+  }), [data, findColor]);
+
+  const { mutate } = mutation;
+  const recordColor = useCallback((color: ColorItem) => mutate(color), [mutate]);
+
+  return { recentColors, recordColor };
+}
@@ -0,0 +1,151 @@
+import { renderTintedLayers, type TintLayer } from "./masks";
+
+// "before-after" puts the original photo next to the design, for sales decks
+export type ExportLayout = "design" | "before-after";
+
+export type ExportFormat = "png" | "jpg";
+
+export interface ExportSettings {
+  fileName: string; // Without extension
+  format: ExportFormat;
+  scale: number; // Multiple of the photo's own resolution
+  quality: number; // JPEG quality, 0-1
+  layout: ExportLayout;
+}
+
+export const EXPORT_SCALES = [1, 2, 4];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  fileName: "customized-furniture",
+  format: "png",
+  scale: 1,
+  quality: 0.92,
+  layout: "design"
+};
+
+// Browsers refuse larger canvases (Chrome's limits; Safari's are lower)
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_PIXELS = 268_435_456;
+
+// Space between the two images of a comparison, relative to the longer side
+const COMPARISON_GAP = 0.02;
+
+// Images this much wider than tall are compared top and bottom instead
+const STACK_ASPECT_RATIO = 1.5;
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return [canvas, ctx];
+}
+
+// Caption in the top-left corner of one image of the comparison
+function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size: number) {
+  const fontSize = Math.max(14, Math.round(size * 0.04));
+  const padding = Math.round(fontSize * 0.5);
+  const margin = padding * 2;
+
+  ctx.save();
+  ctx.font = `600 ${fontSize}px Inter, system-ui, sans-serif`;
+  ctx.textBaseline = "top";
+  const width = ctx.measureText(text).width;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+  ctx.fillRect(x + margin, y + margin, width + padding * 2, fontSize + padding * 2);
+  ctx.fillStyle = "#FFFFFF";
+  ctx.fillText(text, x + margin + padding, y + margin + padding);
+  ctx.restore();
+}
+
+// Renders the design at the photo's own resolution times `scale`, waiting for
+// every mask and texture to load first
+export async function renderDesign(
+  baseImage: HTMLImageElement,
+  layers: TintLayer[],
+  layout: ExportLayout = "design",
+  scale = 1
+): Promise<HTMLCanvasElement> {
+  const width = Math.round(baseImage.naturalWidth * scale);
+  const height = Math.round(baseImage.naturalHeight * scale);
+  const stacked = width > height * STACK_ASPECT_RATIO;
+  const gap = Math.round(Math.max(width, height) * COMPARISON_GAP);
+  const outputWidth = layout === "design" || stacked ? width : width * 2 + gap;
+  const outputHeight = layout === "design" || !stacked ? height : height * 2 + gap;
+
+  if (outputWidth > MAX_CANVAS_SIDE || outputHeight > MAX_CANVAS_SIDE || outputWidth * outputHeight > MAX_CANVAS_PIXELS) {
+    throw new Error(`A ${outputWidth}×${outputHeight} image is too large for the browser to render. Choose a lower resolution.`);
+  }
+
+  const [design, designCtx] = createCanvas(width, height);
+  designCtx.imageSmoothingQuality = "high";
+  await renderTintedLayers(designCtx, baseImage, layers, width, height);
+  if (layout === "design") return design;
+
+  const afterX = stacked ? 0 : width + gap;
+  const afterY = stacked ? height + gap : 0;
+
+  const [comparison, ctx] = createCanvas(outputWidth, outputHeight);
+  ctx.imageSmoothingQuality = "high";
+  ctx.fillStyle = "#FFFFFF";
+  ctx.fillRect(0, 0, comparison.width, comparison.height);
+  ctx.drawImage(baseImage, 0, 0, width, height);
+  ctx.drawImage(design, afterX, afterY);
+  drawLabel(ctx, "Before", 0, 0, Math.min(width, height));
+  drawLabel(ctx, "After", afterX, afterY, Math.min(width, height));
+  return comparison;
+}
+
+// JPEG has no alpha, so transparent areas of the photo are flattened onto
+// white rather than left to the encoder, which turns them black
+function encodeCanvas(canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> {
+  let source = canvas;
+  if (format === "jpg") {
+    const [flattened, ctx] = createCanvas(canvas.width, canvas.height);
+    ctx.fillStyle = "#FFFFFF";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(canvas, 0, 0);
+    source = flattened;
+  }
+
+  return new Promise((resolve, reject) => {
+    source.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error("The browser could not encode the image")),
+      format === "jpg" ? "image/jpeg" : "image/png",
+      quality
+    );
+  });
+}
+
+// Strips characters file systems reject and any extension the user typed
+export function exportFileName(settings: Pick<ExportSettings, "fileName" | "format" | "layout">): string {
+  const base = settings.fileName
+    .trim()
+    .replace(/\.(png|jpe?g)$/i, "")
+    .replace(/[\\/:*?"<>|]+/g, "-") || DEFAULT_EXPORT_SETTINGS.fileName;
+  const suffix = settings.layout === "before-after" ? "-before-after" : "";
+  return `${base}${suffix}.${settings.format}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Renders, encodes and downloads the design; resolves once the file is handed
+// to the browser
+export async function exportDesign(
+  baseImage: HTMLImageElement,
+  layers: TintLayer[],
+  settings: ExportSettings
+): Promise<void> {
+  const canvas = await renderDesign(baseImage, layers, settings.layout, settings.scale);
+  const blob = await encodeCanvas(canvas, settings.format, settings.quality);
+  downloadBlob(blob, exportFileName(settings));
+}
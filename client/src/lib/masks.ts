@@ -0,0 +1,229 @@
+import { recolorPixels, TEXTURE_TILE_FRACTION } from "@shared/recolor";
+import type { RGB } from "@shared/color";
+
+const maskCache = new Map<string, Promise<HTMLCanvasElement>>();
+const textureCache = new Map<string, Promise<HTMLImageElement>>();
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+    img.src = url;
+  });
+}
+
+// Stored masks are single-channel PNGs (white = part). Canvas compositing works
+// on alpha, so the luminance is moved into the alpha channel once per URL.
+export function loadMask(url: string): Promise<HTMLCanvasElement> {
+  let cached = maskCache.get(url);
+  if (!cached) {
+    cached = loadImage(url).then((img) => {
+      const canvas = document.createElement("canvas");
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+      ctx.drawImage(img, 0, 0);
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = pixels.data;
+      for (let i = 0; i < data.length; i += 4) {
+        const coverage = Math.min(data[i], data[i + 3]);
+        data[i] = data[i + 1] = data[i + 2] = 255;
+        data[i + 3] = coverage;
+      }
+      ctx.putImageData(pixels, 0, 0);
+      return canvas;
+    });
+    cached.catch(() => maskCache.delete(url));
+    maskCache.set(url, cached);
+  }
+  return cached;
+}
+
+export function loadTexture(url: string): Promise<HTMLImageElement> {
+  let cached = textureCache.get(url);
+  if (!cached) {
+    cached = loadImage(url);
+    cached.catch(() => textureCache.delete(url));
+    textureCache.set(url, cached);
+  }
+  return cached;
+}
+
+// Average color of the image in a disc around a point (image pixels), so
+// the eyedropper is not thrown off by grain or a single noisy pixel
+export function sampleImageColor(image: HTMLImageElement, x: number, y: number, radius: number): RGB | null {
+  const size = radius * 2 + 1;
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(image, x - radius, y - radius, size, size, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+
+  let r = 0, g = 0, b = 0, count = 0;
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (dx * dx + dy * dy > radius * radius) continue;
+      const i = ((dy + radius) * size + dx + radius) * 4;
+      // Pixels outside the image stay transparent and are skipped
+      if (data[i + 3] === 0) continue;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      count++;
+    }
+  }
+
+  return count > 0 ? { r: r / count, g: g / count, b: b / count } : null;
+}
+
+// "recolor" keeps the part's shading (see recolorPixels); the others are
+// flat color fills composited with the matching canvas operation
+export type BlendMode = "recolor" | "normal" | "multiply" | "overlay" | "screen";
+
+export const DEFAULT_BLEND_MODE: BlendMode = "recolor";
+
+// Anything that can be tinted onto the base image
+export interface TintLayer {
+  maskUrl: string;
+  color: string;
+  opacity: number; // 0-1
+  blendMode: string;
+  visible: boolean;
+  textureUrl?: string;
+  textureScale?: number; // 1 = a tile spans a quarter of the image width
+  textureRotation?: number; // Degrees
+}
+
+// "color" is the closest canvas operation to a recolor, for quick previews
+const compositeOperations: Record<BlendMode, GlobalCompositeOperation> = {
+  recolor: "color",
+  normal: "source-over",
+  multiply: "multiply",
+  overlay: "overlay",
+  screen: "screen"
+};
+
+export function compositeOperationFor(blendMode: string): GlobalCompositeOperation {
+  return compositeOperations[blendMode as BlendMode] ?? "multiply";
+}
+
+// Tiles a texture over the whole scratch canvas, scaled to the output size
+// and rotated around the image center
+function fillWithTexture(
+  scratchCtx: CanvasRenderingContext2D,
+  texture: HTMLImageElement,
+  layer: TintLayer,
+  width: number,
+  height: number
+) {
+  const pattern = scratchCtx.createPattern(texture, "repeat");
+  if (!pattern) return;
+
+  const tileScale = (width * TEXTURE_TILE_FRACTION * (layer.textureScale ?? 1)) / texture.naturalWidth;
+  pattern.setTransform(new DOMMatrix()
+    .translate(width / 2, height / 2)
+    .rotate(layer.textureRotation ?? 0)
+    .scale(tileScale));
+  scratchCtx.fillStyle = pattern;
+  scratchCtx.fillRect(0, 0, width, height);
+}
+
+// Recolors what is already drawn under the mask, so shading comes from the
+// image (or from parts drawn earlier) rather than a flat fill
+function recolorLayer(
+  ctx: CanvasRenderingContext2D,
+  scratchCtx: CanvasRenderingContext2D,
+  mask: HTMLCanvasElement,
+  texture: HTMLImageElement | undefined,
+  layer: TintLayer,
+  width: number,
+  height: number
+) {
+  scratchCtx.globalCompositeOperation = "source-over";
+  scratchCtx.clearRect(0, 0, width, height);
+  scratchCtx.drawImage(mask, 0, 0, width, height);
+  const maskPixels = scratchCtx.getImageData(0, 0, width, height).data;
+
+  const coverage = new Uint8Array(width * height);
+  for (let i = 0; i < coverage.length; i++) {
+    coverage[i] = maskPixels[i * 4 + 3];
+  }
+
+  let detail: Uint8Array | undefined;
+  if (texture) {
+    scratchCtx.clearRect(0, 0, width, height);
+    fillWithTexture(scratchCtx, texture, layer, width, height);
+    const texturePixels = scratchCtx.getImageData(0, 0, width, height).data;
+    detail = new Uint8Array(width * height);
+    for (let i = 0; i < detail.length; i++) {
+      detail[i] = texturePixels[i * 4];
+    }
+  }
+
+  const image = ctx.getImageData(0, 0, width, height);
+  recolorPixels(image.data, 4, coverage, layer.color, layer.opacity, detail);
+  ctx.putImageData(image, 0, 0);
+}
+
+// Draws the base image and then every visible layer in order. Each layer is
+// tinted on its own scratch canvas first, so cutting the color to one mask
+// never erases the layers drawn before it.
+export async function renderTintedLayers(
+  ctx: CanvasRenderingContext2D,
+  baseImage: CanvasImageSource,
+  layers: TintLayer[],
+  width: number,
+  height: number
+): Promise<void> {
+  // Canvas sizes are whole pixels; display sizes may not be
+  width = Math.floor(width);
+  height = Math.floor(height);
+
+  const visible = layers.filter(layer => layer.visible);
+  const [masks, textures] = await Promise.all([
+    Promise.all(visible.map(layer => loadMask(layer.maskUrl))),
+    Promise.all(visible.map(layer => layer.textureUrl ? loadTexture(layer.textureUrl) : undefined))
+  ]);
+
+  const scratch = document.createElement("canvas");
+  scratch.width = width;
+  scratch.height = height;
+  const scratchCtx = scratch.getContext("2d");
+  if (!scratchCtx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(baseImage, 0, 0, width, height);
+
+  visible.forEach((layer, index) => {
+    if (layer.blendMode === "recolor") {
+      recolorLayer(ctx, scratchCtx, masks[index], textures[index], layer, width, height);
+      return;
+    }
+
+    scratchCtx.globalCompositeOperation = "source-over";
+    scratchCtx.clearRect(0, 0, width, height);
+    scratchCtx.fillStyle = layer.color;
+    scratchCtx.fillRect(0, 0, width, height);
+    const texture = textures[index];
+    if (texture) {
+      // Mid-grey grain leaves the swatch color unchanged under overlay
+      scratchCtx.globalCompositeOperation = "overlay";
+      fillWithTexture(scratchCtx, texture, layer, width, height);
+    }
+    scratchCtx.globalCompositeOperation = "destination-in";
+    scratchCtx.drawImage(masks[index], 0, 0, width, height);
+
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = compositeOperationFor(layer.blendMode);
+    ctx.drawImage(scratch, 0, 0);
+    ctx.restore();
+  });
+}
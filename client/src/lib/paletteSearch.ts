@@ -0,0 +1,156 @@
+import { hexToLab } from "@shared/color";
+import { findNearestColors, type ColorCategory, type ColorItem } from "@shared/palette";
+
+// Palette search: free text over code, name, category and tags, color words
+// ("warm brown", "dark grey") matched against each finish's LCh values, and
+// hex input answered with the nearest finishes instead of a text match.
+
+interface LCh {
+  l: number; // 0-100
+  c: number; // Chroma, 0 for neutrals
+  h: number; // Hue angle in degrees
+}
+
+function toLch(hex: string): LCh {
+  const { l, a, b } = hexToLab(hex);
+  const h = Math.atan2(b, a) * 180 / Math.PI;
+  return { l, c: Math.hypot(a, b), h: h < 0 ? h + 360 : h };
+}
+
+const hueBetween = (h: number, from: number, to: number) =>
+  from <= to ? h >= from && h < to : h >= from || h < to;
+
+// Loose bands tuned on the seed palette; a finish can answer to several words
+const COLOR_WORDS: Record<string, (color: LCh) => boolean> = {
+  black: ({ l }) => l < 25,
+  white: ({ l, c }) => l > 88 && c < 14,
+  grey: ({ l, c }) => c < 10 && l >= 20 && l <= 92,
+  silver: ({ l, c }) => c < 10 && l >= 60 && l <= 85,
+  neutral: ({ c }) => c < 10,
+  red: ({ c, h }) => c > 25 && hueBetween(h, 350, 40),
+  pink: ({ l, c, h }) => l > 55 && c > 15 && hueBetween(h, 330, 30),
+  orange: ({ l, c, h }) => l > 40 && c > 30 && hueBetween(h, 40, 70),
+  brown: ({ l, c, h }) => l < 62 && c >= 8 && hueBetween(h, 15, 95),
+  beige: ({ l, c, h }) => l >= 62 && l <= 93 && c >= 6 && c < 40 && hueBetween(h, 40, 100),
+  gold: ({ l, c, h }) => l > 45 && c > 25 && hueBetween(h, 65, 100),
+  yellow: ({ l, c, h }) => l > 70 && c > 20 && hueBetween(h, 75, 110),
+  green: ({ c, h }) => c > 10 && hueBetween(h, 100, 200),
+  blue: ({ c, h }) => c > 10 && hueBetween(h, 200, 290),
+  purple: ({ c, h }) => c > 10 && hueBetween(h, 290, 330),
+  dark: ({ l }) => l < 40,
+  light: ({ l }) => l > 70,
+  warm: ({ c, h }) => c >= 6 && hueBetween(h, 330, 100),
+  cool: ({ c, h }) => c < 6 || hueBetween(h, 150, 300),
+  muted: ({ c }) => c < 20,
+  bright: ({ l, c }) => c > 40 || l > 85,
+};
+
+const COLOR_WORD_ALIASES: Record<string, string> = {
+  gray: "grey",
+  tan: "beige",
+  cream: "beige",
+  ivory: "beige",
+  bronze: "brown",
+  violet: "purple",
+  deep: "dark",
+  pale: "light",
+};
+
+const HEX_QUERY = /^#?([0-9a-f]{6})$|^#([0-9a-f]{3})$/i;
+
+// Hex searches return this many nearest finishes
+const HEX_MATCH_LIMIT = 8;
+
+export interface SearchFacets {
+  categoryIds: string[]; // Any of these categories; empty means all
+  tags: string[]; // Every one of these tags
+}
+
+export interface SearchResult {
+  color: ColorItem;
+  category: ColorCategory;
+  distance?: number; // CIEDE2000, for hex searches
+}
+
+export interface PaletteSearch {
+  results: SearchResult[]; // In display order
+  hex?: string; // Set when the query was a color, results are nearest first
+  colorWords: string[]; // Query words understood as colors
+}
+
+export function parseHexQuery(query: string): string | undefined {
+  const match = query.trim().match(HEX_QUERY);
+  if (!match) return undefined;
+  const digits = match[1] ?? match[2].split("").map(c => c + c).join("");
+  return `#${digits.toUpperCase()}`;
+}
+
+function colorWordFor(word: string): string | undefined {
+  const key = COLOR_WORD_ALIASES[word] ?? word;
+  return COLOR_WORDS[key] ? key : undefined;
+}
+
+function matchesFacets(color: ColorItem, category: ColorCategory, facets: SearchFacets) {
+  if (facets.categoryIds.length > 0 && !facets.categoryIds.includes(category.id)) return false;
+  return facets.tags.every(tag => color.tags?.includes(tag));
+}
+
+/**
+ * Every query word must match: color words test the finish's color, other
+ * words are matched against its code, name, category and tags. A text match
+ * also counts for color words, so "gold" finds "Gold Bronze Plating" too.
+ */
+export function searchPalette(
+  categories: ColorCategory[],
+  query: string,
+  facets: SearchFacets = { categoryIds: [], tags: [] }
+): PaletteSearch {
+  const hex = parseHexQuery(query);
+  if (hex) {
+    const scoped = categories.map(category => ({
+      ...category,
+      colors: category.colors.filter(color => matchesFacets(color, category, facets))
+    }));
+    return {
+      hex,
+      colorWords: [],
+      results: findNearestColors(scoped, hex, HEX_MATCH_LIMIT)
+    };
+  }
+
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const colorWords = words.map(colorWordFor).filter((word): word is string => !!word);
+  const results: SearchResult[] = [];
+
+  for (const category of categories) {
+    for (const color of category.colors) {
+      if (!matchesFacets(color, category, facets)) continue;
+
+      const text = [color.code, color.name, category.name, ...(color.tags ?? [])].join(" ").toLowerCase();
+      let lch: LCh | undefined;
+      const matches = words.every(word => {
+        if (text.includes(word)) return true;
+        const colorWord = colorWordFor(word);
+        if (!colorWord) return false;
+        lch ??= toLch(color.hexColor);
+        return COLOR_WORDS[colorWord](lch);
+      });
+
+      if (matches) results.push({ color, category });
+    }
+  }
+
+  return { results, colorWords };
+}
+
+// Tags used in the palette with how many finishes carry each, most common first
+export function paletteTags(categories: ColorCategory[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const category of categories) {
+    for (const color of category.colors) {
+      color.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
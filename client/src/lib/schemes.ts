@@ -0,0 +1,49 @@
+import type { ColoredMask } from "@/components/CanvasWorkspace";
+import type { ColorSchemeEntry } from "@shared/schema";
+
+export interface SchemeMatch {
+  mask: ColoredMask;
+  entry: ColorSchemeEntry;
+}
+
+function regionWords(name: string): string[] {
+  return name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Pairs each part with the scheme entry for its region. An exact name match
+ * (ignoring case and punctuation) wins; otherwise the entry whose words all
+ * appear in the part name is used, preferring the most specific one, so
+ * "Seat" colors "Sofa Seat" and "Front Leg" beats "Leg" for "Front Leg Left".
+ * One entry may color several parts.
+ */
+export function matchSchemeEntries(masks: ColoredMask[], entries: ColorSchemeEntry[]): SchemeMatch[] {
+  const candidates = entries.map(entry => ({ entry, words: regionWords(entry.regionName) }));
+
+  return masks.flatMap(mask => {
+    const words = regionWords(mask.name);
+    const key = words.join(" ");
+
+    const exact = candidates.find(candidate => candidate.words.join(" ") === key);
+    if (exact) return [{ mask, entry: exact.entry }];
+
+    const partial = candidates
+      .filter(candidate => candidate.words.length > 0 && candidate.words.every(word => words.includes(word)))
+      .sort((a, b) => b.words.length - a.words.length)[0];
+    return partial ? [{ mask, entry: partial.entry }] : [];
+  });
+}
+
+// The scheme entries a set of colored parts would be saved as
+export function toSchemeEntries(masks: ColoredMask[]) {
+  return masks.map(mask => ({
+    regionName: mask.name,
+    colorId: mask.colorId ?? null,
+    fillHex: mask.color.toUpperCase(),
+    opacity: String(mask.opacity),
+    blendMode: mask.blendMode,
+    textureUrl: mask.textureUrl ?? null,
+    textureScale: String(mask.textureScale ?? 1),
+    textureRotation: Math.round(mask.textureRotation ?? 0)
+  }));
+}
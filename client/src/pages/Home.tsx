@@ -1,34 +1,141 @@
-import { useState } from "react";
+import { useCallback, useMemo, useRef, useState } from "react";
 import Header from "@/components/Header";
 import ColorPalette from "@/components/ColorPalette";
 import UploadZone from "@/components/UploadZone";
-import { CanvasWorkspace } from "@/components/CanvasWorkspace";
+import { CanvasWorkspace, type CanvasSnapshot, type ColoredMask, type MaskSegmentation } from "@/components/CanvasWorkspace";
 import PropertiesPanel from "@/components/PropertiesPanel";
 import ProjectGallery from "@/components/ProjectGallery";
-import type { ColorItem } from "@/data/colorPalette";
+import SchemeBrowser from "@/components/SchemeBrowser";
+import QuotationDialog from "@/components/QuotationDialog";
+import QuoteRequestDialog, { type QuoteContactDetails } from "@/components/QuoteRequestDialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { ColorItem } from "@shared/palette";
+import { estimatePrice } from "@shared/pricing";
+import { usePalette, usePricingPalette } from "@/hooks/use-palette";
+import { useBaseModels } from "@/hooks/use-base-models";
+import { useRecentColors } from "@/hooks/use-recent-colors";
+import { useColorSchemes } from "@/hooks/use-color-schemes";
+import { useToast } from "@/hooks/use-toast";
+import { useDesignExport } from "@/hooks/use-design-export";
 import sofaImage from '@assets/generated_images/Modern_grey_sofa_furniture_4bccca05.png';
 import chairImage from '@assets/generated_images/Beige_dining_chair_c4cca64b.png';
 import officeChairImage from '@assets/generated_images/Brown_office_chair_3fdc19ca.png';
 import tableImage from '@assets/generated_images/Round_wooden_side_table_c2d711ab.png';
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAutosave } from "@/hooks/use-autosave";
+import { useMaskLayers } from "@/hooks/use-mask-layers";
+import { DEFAULT_BLEND_MODE } from "@/lib/masks";
+import { DEFAULT_EXPORT_SETTINGS, downloadBlob, type ExportSettings } from "@/lib/export";
+import { useColorPersistence } from "@/hooks/use-color-persistence";
+import { matchSchemeEntries, toSchemeEntries } from "@/lib/schemes";
+import type { CanvasState, ColorSchemeWithEntries, ProjectDetails, ProjectImageWithMasks } from "@shared/schema";
+
+// Shape of canvasStates.canvasJson
+interface SavedCanvas {
+  imageId: string;
+  layers: ColoredMask[];
+  selectedMaskId: string | null;
+}
+
+// Only masks with a saved color are restored; uncolored ones have nothing to show.
+// They are stacked as last saved, with creation order breaking ties.
+function toColoredMasks(image: ProjectImageWithMasks): ColoredMask[] {
+  return image.masks
+    .filter(mask => mask.colorApplication)
+    .sort((a, b) => a.colorApplication!.sortOrder - b.colorApplication!.sortOrder)
+    .map((mask, index) => ({
+      id: mask.id,
+      name: mask.colorApplication!.regionName ?? `Part ${index + 1}`,
+      maskId: mask.id,
+      colorApplicationId: mask.colorApplication!.id,
+      colorId: mask.colorApplication!.colorId ?? undefined,
+      maskUrl: mask.maskUrl,
+      color: mask.colorApplication!.fillHex,
+      opacity: Number(mask.colorApplication!.opacity),
+      blendMode: mask.colorApplication!.blendMode,
+      visible: mask.colorApplication!.visible,
+      textureUrl: mask.colorApplication!.textureUrl ?? undefined,
+      textureScale: Number(mask.colorApplication!.textureScale),
+      textureRotation: mask.colorApplication!.textureRotation,
+      clickX: mask.clickX,
+      clickY: mask.clickY,
+      points: mask.points ?? [{ x: mask.clickX, y: mask.clickY, label: 1 }],
+      box: mask.box ?? undefined,
+      boundingBox: mask.boundingBox,
+      area: mask.area,
+      centroid: mask.centroid ?? { x: mask.clickX, y: mask.clickY }
+    }));
+}
+
+// Prefers the autosaved snapshot for this image, falling back to the stored masks.
+// Color application ids always come from the database so saves keep patching them.
+function restoreCanvas(image: ProjectImageWithMasks, canvasState: CanvasState | null): CanvasSnapshot {
+  const saved = canvasState?.canvasJson as SavedCanvas | undefined;
+  if (!canvasState || !saved || saved.imageId !== image.id) {
+    return { layers: toColoredMasks(image), zoom: 100, selectedMaskId: null };
+  }
+
+  return {
+    layers: saved.layers.map((layer, index) => ({
+      ...layer,
+      name: layer.name ?? `Part ${index + 1}`,
+      visible: layer.visible ?? true,
+      colorApplicationId: image.masks.find(mask => mask.id === layer.maskId)?.colorApplication?.id
+    })),
+    zoom: Math.round(Number(canvasState.zoom) * 100),
+    selectedMaskId: saved.selectedMaskId
+  };
+}
 
 export default function Home() {
   const [projectName, setProjectName] = useState("Untitled Project");
   const [selectedColor, setSelectedColor] = useState<ColorItem | null>(null);
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [uploadedImageId, setUploadedImageId] = useState<string | null>(null);
-  const [recentColors, setRecentColors] = useState<ColorItem[]>([]);
+  const [zoom, setZoom] = useState(100);
   const [galleryOpen, setGalleryOpen] = useState(false);
   const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [leftPanel, setLeftPanel] = useState("palette");
+  const [sampledColor, setSampledColor] = useState<string | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [quotationOpen, setQuotationOpen] = useState(false);
+  const [quoteRequestOpen, setQuoteRequestOpen] = useState(false);
+  const [baseModelId, setBaseModelId] = useState<string | null>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { downloadDesign, isExporting } = useDesignExport();
+  const { findColor } = usePalette();
+  const pricingCategories = usePricingPalette();
+  const { baseModels } = useBaseModels();
+  // The layers report removed masks and persistence, which needs the layers,
+  // deletes their stored colors; the ref connects the two in that order
+  const removeStoredColor = useRef<(mask: ColoredMask) => void>();
+  const layers = useMaskLayers({ onMaskRemoved: (mask) => removeStoredColor.current?.(mask) });
+  const { deleteColor } = useColorPersistence(currentProjectId || undefined, layers.masks);
+  removeStoredColor.current = deleteColor;
+  const { recentColors, recordColor } = useRecentColors(currentProjectId || undefined);
+  const { schemes, createScheme, deleteScheme } = useColorSchemes();
+
+  // Start the canvas from a saved state, or blank for a new image
+  const resetCanvas = (snapshot?: CanvasSnapshot) => {
+    layers.load(snapshot?.layers ?? [], snapshot?.selectedMaskId ?? null);
+    setZoom(snapshot?.zoom ?? 100);
+    setSampledColor(null);
+  };
 
   const handleColorSelect = (color: ColorItem) => {
     setSelectedColor(color);
-    
-    setRecentColors(prev => {
-      const filtered = prev.filter(c => c.id !== color.id);
-      return [color, ...filtered].slice(0, 8);
-    });
+
+    if (layers.selectedMask) {
+      layers.updateMask(layers.selectedMask.id, {
+        color: color.hexColor,
+        colorId: color.id,
+        textureUrl: color.textureUrl
+      });
+    }
+
+    recordColor(color);
   };
 
   const handleImageUpload = async (file: File) => {
@@ -49,7 +156,8 @@ export default function Home() {
       
       const projectToUse = currentProjectId ? currentProjectId : (await createProjectMutation.mutateAsync({
         name: file.name.replace(/\.[^/.]+$/, ""),
-        previewImageUrl: data.path
+        previewImageUrl: data.path,
+        baseModelId
       })).id;
       
       if (!currentProjectId) {
@@ -73,6 +181,7 @@ export default function Home() {
         if (imageRecord.ok) {
           const imageData = await imageRecord.json();
           setUploadedImageId(imageData.id);
+          resetCanvas();
           setUploadedImage(data.fullUrl);
           setProjectName(file.name.replace(/\.[^/.]+$/, ""));
         }
@@ -93,7 +202,7 @@ export default function Home() {
   });
 
   const createProjectMutation = useMutation({
-    mutationFn: async (projectData: { name: string; previewImageUrl?: string }) => {
+    mutationFn: async (projectData: { name: string; previewImageUrl?: string; baseModelId?: string | null }) => {
       const response = await fetch('/api/projects', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -116,15 +225,27 @@ export default function Home() {
 
   const loadProject = async (projectId: string) => {
     try {
-      const response = await fetch(`/api/projects/${projectId}`);
+      const [response, stateResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}`),
+        fetch(`/api/projects/${projectId}/canvas-state`)
+      ]);
       if (!response.ok) throw new Error('Failed to load project');
-      const data = await response.json();
+      const data: ProjectDetails = await response.json();
+      const canvasState: CanvasState | null = stateResponse.ok ? await stateResponse.json() : null;
       
       if (data.project) {
         setProjectName(data.project.name);
         setCurrentProjectId(data.project.id);
-        
-        if (data.project.previewImageUrl) {
+        setBaseModelId(data.project.baseModelId);
+
+        const image = data.images[data.images.length - 1];
+        if (image) {
+          setUploadedImageId(image.id);
+          resetCanvas(restoreCanvas(image, canvasState));
+          setUploadedImage(image.originalImagePath);
+        } else if (data.project.previewImageUrl) {
+          setUploadedImageId(null);
+          resetCanvas();
           setUploadedImage(data.project.previewImageUrl);
         }
       }
@@ -133,15 +254,163 @@ export default function Home() {
     }
   };
 
+  const handleMaskSegmented = (segmentation: MaskSegmentation) => {
+    layers.addMask({
+      ...segmentation,
+      id: crypto.randomUUID(),
+      name: `Part ${layers.masks.length + 1}`,
+      color: selectedColor?.hexColor ?? "#FF0000",
+      colorId: selectedColor?.id,
+      textureUrl: selectedColor?.textureUrl,
+      opacity: 1,
+      blendMode: DEFAULT_BLEND_MODE,
+      visible: true
+    });
+  };
+
+  // Colors every part whose name matches a region of the scheme, as one undo step.
+  // Finishes still in the palette use their current color and texture.
+  const handleApplyScheme = (scheme: ColorSchemeWithEntries) => {
+    const matches = matchSchemeEntries(layers.masks, scheme.entries);
+    layers.updateMasks(matches.map(({ mask, entry }) => {
+      const paletteColor = findColor(entry.colorId ?? undefined);
+      return {
+        id: mask.id,
+        changes: {
+          color: paletteColor?.hexColor ?? entry.fillHex,
+          colorId: entry.colorId ?? undefined,
+          textureUrl: paletteColor ? paletteColor.textureUrl : entry.textureUrl ?? undefined,
+          textureScale: Number(entry.textureScale),
+          textureRotation: entry.textureRotation,
+          opacity: Number(entry.opacity),
+          blendMode: entry.blendMode
+        }
+      };
+    }));
+
+    toast({
+      title: `Applied ${scheme.name}`,
+      description: `Colored ${matches.length} of ${layers.masks.length} parts.`
+    });
+  };
+
+  const handleSaveScheme = (name: string) => {
+    createScheme.mutate({ name, entries: toSchemeEntries(layers.masks) }, {
+      onSuccess: () => toast({ title: "Scheme saved", description: name }),
+      onError: (error) => toast({ title: "Failed to save scheme", description: error.message, variant: "destructive" })
+    });
+  };
+
+  const handleCanvasReset = () => {
+    layers.masks.forEach(deleteColor);
+    layers.load([]);
+  };
+
+  const appliedColor: ColorItem | null = layers.selectedMask
+    ? findColor(layers.selectedMask.colorId) ?? {
+        id: 'custom',
+        code: layers.selectedMask.color.toUpperCase(),
+        name: 'Custom color',
+        hexColor: layers.selectedMask.color
+      }
+    : null;
+
+  const canvasSnapshot = useMemo<CanvasSnapshot>(() => ({
+    layers: layers.masks,
+    zoom,
+    selectedMaskId: layers.selectedMaskId
+  }), [layers.masks, zoom, layers.selectedMaskId]);
+
+  const saveCanvasState = useCallback(async (snapshot: CanvasSnapshot) => {
+    if (!currentProjectId || !uploadedImageId) return;
+
+    const canvasJson: SavedCanvas = {
+      imageId: uploadedImageId,
+      layers: snapshot.layers,
+      selectedMaskId: snapshot.selectedMaskId
+    };
+
+    await apiRequest('PUT', `/api/projects/${currentProjectId}/canvas-state`, {
+      canvasJson,
+      zoom: String(snapshot.zoom / 100)
+    });
+  }, [currentProjectId, uploadedImageId]);
+
+  const saveStatus = useAutosave(canvasSnapshot, saveCanvasState, !!currentProjectId && !!uploadedImageId);
+
   const handleDownload = () => {
-    console.log('Download triggered');
+    if (!uploadedImage) return;
+    downloadDesign(uploadedImage, layers.masks, exportSettings);
+  };
+
+  const quotationMutation = useMutation({
+    mutationFn: async (notes: string) => {
+      const response = await apiRequest('POST', `/api/projects/${currentProjectId}/quotation`, {
+        imageId: uploadedImageId,
+        notes: notes || undefined
+      });
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1];
+      downloadBlob(await response.blob(), fileName ?? 'quotation.pdf');
+    },
+    onSuccess: () => setQuotationOpen(false),
+    onError: (error) => {
+      console.error('Failed to build quotation:', error);
+      toast({
+        title: "Quotation failed",
+        description: "Could not build the quotation PDF. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const quoteRequestMutation = useMutation({
+    mutationFn: (details: QuoteContactDetails) => apiRequest('POST', '/api/quotes', {
+      ...details,
+      projectId: currentProjectId,
+      imageId: uploadedImageId
+    }),
+    onSuccess: () => {
+      setQuoteRequestOpen(false);
+      toast({ title: "Quote requested", description: "Our sales team will be in touch shortly." });
+    },
+    onError: (error) => {
+      console.error('Failed to submit quote request:', error);
+      toast({
+        title: "Request failed",
+        description: "Could not send the quote request. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const canQuote = !!currentProjectId && !!uploadedImageId;
+
+  // Hidden parts are left out, as they are from the render and the quote
+  const estimate = useMemo(
+    () => estimatePrice(
+      baseModels.find(model => model.id === baseModelId),
+      layers.masks.filter(mask => mask.visible),
+      pricingCategories
+    ),
+    [baseModels, baseModelId, layers.masks, pricingCategories]
+  );
+
+  // Saved projects remember their base model so the estimate survives reloads
+  const handleBaseModelChange = (id: string | null) => {
+    setBaseModelId(id);
+    if (currentProjectId) {
+      apiRequest('PATCH', `/api/projects/${currentProjectId}`, { baseModelId: id })
+        .then(() => queryClient.invalidateQueries({ queryKey: ['/api/projects'] }))
+        .catch(error => console.error('Failed to save base model:', error));
+    }
   };
 
   const handleSave = async () => {
     if (!currentProjectId) {
       const project = await createProjectMutation.mutateAsync({
         name: projectName,
-        previewImageUrl: uploadedImage || undefined
+        previewImageUrl: uploadedImage || undefined,
+        baseModelId
       });
       setCurrentProjectId(project.id);
     }
@@ -166,23 +435,57 @@ export default function Home() {
         projectName={projectName}
         onProjectNameChange={setProjectName}
         onOpenGallery={() => setGalleryOpen(true)}
+        saveStatus={currentProjectId && uploadedImageId ? saveStatus : undefined}
       />
 
       <div className="flex-1 flex overflow-hidden">
-        <div className="w-80 border-r bg-card flex-shrink-0">
-          <ColorPalette 
-            selectedColor={selectedColor}
-            onColorSelect={handleColorSelect}
-            recentColors={recentColors}
-          />
-        </div>
+        <Tabs value={leftPanel} onValueChange={setLeftPanel} className="w-80 border-r bg-card flex-shrink-0 flex flex-col">
+          <TabsList className="grid grid-cols-2 m-4 mb-0">
+            <TabsTrigger value="palette" data-testid="tab-palette">Palette</TabsTrigger>
+            <TabsTrigger value="schemes" data-testid="tab-schemes">Schemes</TabsTrigger>
+          </TabsList>
+          <TabsContent value="palette" className="flex-1 min-h-0 mt-0">
+            <ColorPalette 
+              selectedColor={selectedColor}
+              onColorSelect={handleColorSelect}
+              recentColors={recentColors}
+              sampledColor={sampledColor}
+              onClearSample={() => setSampledColor(null)}
+            />
+          </TabsContent>
+          <TabsContent value="schemes" className="flex-1 min-h-0 mt-0">
+            <SchemeBrowser
+              schemes={schemes}
+              layers={layers.masks}
+              isSaving={createScheme.isPending}
+              onApply={handleApplyScheme}
+              onSave={handleSaveScheme}
+              onDelete={(id) => deleteScheme.mutate(id)}
+            />
+          </TabsContent>
+        </Tabs>
 
         <div className="flex-1 flex flex-col min-w-0">
           {uploadedImage ? (
             <CanvasWorkspace 
               imageUrl={uploadedImage}
-              selectedColor={selectedColor?.hexColor}
               imageId={uploadedImageId || undefined}
+              masks={layers.masks}
+              selectedMaskId={layers.selectedMaskId}
+              zoom={zoom}
+              onZoomChange={setZoom}
+              onMaskSegmented={handleMaskSegmented}
+              onMaskRefined={layers.updateMask}
+              onReset={handleCanvasReset}
+              onColorSampled={(hex) => {
+                setSampledColor(hex);
+                setLeftPanel("palette");
+              }}
+              onUndo={layers.undo}
+              onRedo={layers.redo}
+              canUndo={layers.canUndo}
+              canRedo={layers.canRedo}
+              exportSettings={exportSettings}
             />
           ) : (
             <div className="flex-1 flex items-center justify-center p-8">
@@ -206,6 +509,7 @@ export default function Home() {
                           setUploadedImage(example.img);
                           setProjectName(example.name);
                           setUploadedImageId(null);
+                          resetCanvas();
                           setCurrentProjectId(null);
                         }}
                         className="group flex flex-col gap-2 p-3 rounded-lg border bg-card hover-elevate active-elevate-2"
@@ -232,17 +536,46 @@ export default function Home() {
 
         <div className="w-80 border-l bg-card flex-shrink-0">
           <PropertiesPanel 
-            selectedColor={selectedColor}
-            opacity={70}
-            blendMode="multiply"
-            onOpacityChange={() => {}}
-            onBlendModeChange={() => {}}
+            imageUrl={uploadedImage || undefined}
+            layers={layers.masks}
+            selectedLayer={layers.selectedMask}
+            onLayerSelect={layers.selectMask}
+            onLayerChange={layers.updateMask}
+            onLayerMove={layers.moveMask}
+            onLayerDelete={layers.removeMask}
+            selectedColor={appliedColor}
+            baseModels={baseModels}
+            baseModelId={baseModelId}
+            onBaseModelChange={handleBaseModelChange}
+            estimate={estimate}
+            exportSettings={exportSettings}
+            onExportSettingsChange={setExportSettings}
+            isDownloading={isExporting}
             onDownload={handleDownload}
+            onQuotation={canQuote ? () => setQuotationOpen(true) : undefined}
+            onRequestQuote={canQuote ? () => setQuoteRequestOpen(true) : undefined}
             onSave={handleSave}
           />
         </div>
       </div>
 
+      <QuotationDialog
+        open={quotationOpen}
+        onOpenChange={setQuotationOpen}
+        projectName={projectName}
+        partCount={layers.masks.length}
+        isGenerating={quotationMutation.isPending}
+        onSubmit={(notes) => quotationMutation.mutate(notes)}
+      />
+
+      <QuoteRequestDialog
+        open={quoteRequestOpen}
+        onOpenChange={setQuoteRequestOpen}
+        projectName={projectName}
+        isSubmitting={quoteRequestMutation.isPending}
+        onSubmit={(details) => quoteRequestMutation.mutate(details)}
+      />
+
       <ProjectGallery
         open={galleryOpen}
         onOpenChange={setGalleryOpen}
@@ -251,6 +584,8 @@ export default function Home() {
           if (['1', '2', '3', '4'].includes(project.id)) {
             setUploadedImage(project.thumbnail);
             setProjectName(project.name);
+            setUploadedImageId(null);
+            resetCanvas();
             setCurrentProjectId(null);
           } else {
             loadProject(project.id);
@@ -0,0 +1,422 @@
+import { useRef, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowDown, ArrowLeft, ArrowUp, Download, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import PaletteColorDialog from "@/components/PaletteColorDialog";
+import PaletteImportDialog from "@/components/PaletteImportDialog";
+import BaseModelsCard from "@/components/BaseModelsCard";
+import { useBaseModels } from "@/hooks/use-base-models";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { formatPrice } from "@shared/pricing";
+import type {
+  ImportedColor,
+  InsertPaletteCategory,
+  InsertPaletteColor,
+  PaletteCategoryWithColors,
+  PaletteColor,
+  PaletteImportPreview
+} from "@shared/schema";
+
+const ADMIN_PALETTE_KEY = "/api/palette?includeRetired=true";
+
+const EXPORT_FORMATS = [
+  { format: "csv", label: "CSV spreadsheet" },
+  { format: "ase", label: "Adobe Swatch Exchange (.ase)" },
+  { format: "json", label: "JSON" },
+];
+
+interface ImportState {
+  filename: string;
+  preview: PaletteImportPreview;
+}
+
+interface ColorDialogState {
+  color: PaletteColor | null;
+  categoryId: string;
+}
+
+export default function PaletteAdmin() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newCategoryName, setNewCategoryName] = useState("");
+  const [dialog, setDialog] = useState<ColorDialogState | null>(null);
+  const [pendingImport, setPendingImport] = useState<ImportState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { baseModels, saveBaseModel, deleteBaseModel } = useBaseModels();
+
+  const { data: categories = [], isLoading } = useQuery<PaletteCategoryWithColors[]>({
+    queryKey: [ADMIN_PALETTE_KEY]
+  });
+
+  // Both the admin view and the editor's picker read the palette
+  const invalidatePalette = () => queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/palette")
+  });
+
+  const onError = (error: Error) => toast({
+    title: "Palette update failed",
+    description: error.message,
+    variant: "destructive"
+  });
+
+  const createCategory = useMutation({
+    mutationFn: (name: string) => apiRequest("POST", "/api/palette/categories", { name }),
+    onSuccess: () => {
+      setNewCategoryName("");
+      invalidatePalette();
+    },
+    onError
+  });
+
+  const updateCategory = useMutation({
+    mutationFn: ({ id, values }: { id: string; values: Partial<InsertPaletteCategory> }) =>
+      apiRequest("PATCH", `/api/palette/categories/${id}`, values),
+    onSuccess: invalidatePalette,
+    onError
+  });
+
+  const reorderCategories = useMutation({
+    mutationFn: (ids: string[]) => apiRequest("PUT", "/api/palette/categories/order", { ids }),
+    onSuccess: invalidatePalette,
+    onError
+  });
+
+  const deleteCategory = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/palette/categories/${id}`),
+    onSuccess: invalidatePalette,
+    onError
+  });
+
+  const saveColor = useMutation({
+    mutationFn: ({ id, values }: { id?: string; values: Partial<InsertPaletteColor> }) => id
+      ? apiRequest("PATCH", `/api/palette/colors/${id}`, values)
+      : apiRequest("POST", "/api/palette/colors", values),
+    onSuccess: () => {
+      setDialog(null);
+      invalidatePalette();
+    },
+    onError
+  });
+
+  const deleteColor = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/palette/colors/${id}`),
+    onSuccess: invalidatePalette,
+    onError
+  });
+
+  const previewImport = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch("/api/palette/import/preview", { method: "POST", body: formData });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || body?.message || "Could not read palette file");
+      }
+      return { filename: file.name, preview: await response.json() as PaletteImportPreview };
+    },
+    onSuccess: setPendingImport,
+    onError
+  });
+
+  const commitImport = useMutation({
+    mutationFn: (colors: ImportedColor[]) => apiRequest("POST", "/api/palette/import", { colors }),
+    onSuccess: (_response, colors) => {
+      setPendingImport(null);
+      invalidatePalette();
+      toast({ title: "Palette imported", description: `${colors.length} finishes added or updated.` });
+    },
+    onError
+  });
+
+  const moveCategory = (index: number, offset: number) => {
+    const ids = categories.map(category => category.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderCategories.mutate(ids);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="h-16 border-b flex items-center gap-4 px-6 sticky top-0 z-50 bg-background">
+        <Link href="/">
+          <Button variant="ghost" size="icon" data-testid="link-back-to-editor">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-display font-semibold">Palette Admin</h1>
+        <div className="flex-1" />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.ase,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) previewImport.mutate(file);
+            e.target.value = "";
+          }}
+          data-testid="input-import-file"
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={previewImport.isPending}
+          data-testid="button-import-palette"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" data-testid="button-export-palette">
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <DropdownMenuItem key={format} asChild>
+                <a href={`/api/palette/export?format=${format}`} download data-testid={`link-export-${format}`}>
+                  {label}
+                </a>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newCategoryName.trim()) createCategory.mutate(newCategoryName.trim());
+          }}
+        >
+          <Input
+            value={newCategoryName}
+            onChange={(e) => setNewCategoryName(e.target.value)}
+            placeholder="New category name..."
+            className="w-64"
+            data-testid="input-new-category"
+          />
+          <Button type="submit" disabled={!newCategoryName.trim() || createCategory.isPending} data-testid="button-add-category">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Button>
+        </form>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-6 space-y-6">
+        <BaseModelsCard
+          baseModels={baseModels}
+          isSaving={saveBaseModel.isPending}
+          onSave={(id, values) => saveBaseModel.mutate({ id, values }, { onError })}
+          onDelete={(id) => deleteBaseModel.mutate(id, { onError })}
+        />
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading palette...</p>}
+
+        {!isLoading && categories.length === 0 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-empty-palette">
+            The palette is empty. Add a category to get started.
+          </p>
+        )}
+
+        {categories.map((category, index) => (
+          <Card key={category.id} className="p-4 space-y-4" data-testid={`card-category-${category.id}`}>
+            <div className="flex items-center gap-2">
+              <Input
+                key={category.name}
+                defaultValue={category.name}
+                className="max-w-sm font-medium"
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== category.name) updateCategory.mutate({ id: category.id, values: { name } });
+                }}
+                data-testid={`input-category-name-${category.id}`}
+              />
+              <Input
+                key={category.surcharge}
+                defaultValue={category.surcharge}
+                inputMode="decimal"
+                className="w-28 font-mono"
+                title="Surcharge per part finished in this category"
+                onBlur={(e) => {
+                  const surcharge = e.target.value.trim();
+                  if (!/^\d+(\.\d{1,2})?$/.test(surcharge)) {
+                    e.target.value = category.surcharge;
+                  } else if (Number(surcharge) !== Number(category.surcharge)) {
+                    updateCategory.mutate({ id: category.id, values: { surcharge } });
+                  }
+                }}
+                data-testid={`input-category-surcharge-${category.id}`}
+              />
+              <span className="text-xs text-muted-foreground">
+                {category.colors.filter(color => !color.retired).length} active
+              </span>
+              <div className="flex-1" />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === 0 || reorderCategories.isPending}
+                onClick={() => moveCategory(index, -1)}
+                title="Move up"
+                data-testid={`button-category-up-${category.id}`}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === categories.length - 1 || reorderCategories.isPending}
+                onClick={() => moveCategory(index, 1)}
+                title="Move down"
+                data-testid={`button-category-down-${category.id}`}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={category.colors.length > 0}
+                onClick={() => deleteCategory.mutate(category.id)}
+                title={category.colors.length > 0 ? "Remove its finishes first" : "Delete category"}
+                data-testid={`button-delete-category-${category.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setDialog({ color: null, categoryId: category.id })}
+                data-testid={`button-add-color-${category.id}`}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Finish
+              </Button>
+            </div>
+
+            {category.colors.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12" />
+                    <TableHead>Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Hex</TableHead>
+                    <TableHead>Surcharge</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {category.colors.map(color => (
+                    <TableRow
+                      key={color.id}
+                      className={cn(color.retired && "text-muted-foreground")}
+                      data-testid={`row-color-${color.id}`}
+                    >
+                      <TableCell>
+                        <div
+                          className={cn("h-8 w-8 rounded-md border", color.retired && "opacity-50")}
+                          style={{
+                            backgroundColor: color.hexColor,
+                            ...(color.textureUrl && {
+                              backgroundImage: `url(${color.textureUrl})`,
+                              backgroundSize: "200%",
+                              backgroundBlendMode: "overlay"
+                            })
+                          }}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{color.code || "—"}</TableCell>
+                      <TableCell>
+                        <span className="text-sm">{color.name}</span>
+                        {color.textureUrl && <Badge variant="secondary" className="ml-2">Texture</Badge>}
+                        {color.retired && <Badge variant="outline" className="ml-2">Retired</Badge>}
+                        {color.tags.length > 0 && (
+                          <p className="text-xs text-muted-foreground">{color.tags.join(", ")}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{color.hexColor}</TableCell>
+                      <TableCell className={cn("font-mono text-xs", color.surcharge === null && "text-muted-foreground")}>
+                        {formatPrice(Number(color.surcharge ?? category.surcharge))}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={!color.retired}
+                          onCheckedChange={(active) => saveColor.mutate({ id: color.id, values: { retired: !active } })}
+                          data-testid={`switch-color-active-${color.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDialog({ color, categoryId: color.categoryId })}
+                          data-testid={`button-edit-color-${color.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            if (confirm(`Delete "${color.name}"? Retiring keeps it for existing designs.`)) {
+                              deleteColor.mutate(color.id);
+                            }
+                          }}
+                          data-testid={`button-delete-color-${color.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        ))}
+      </main>
+
+      <PaletteColorDialog
+        open={!!dialog}
+        onOpenChange={(open) => !open && setDialog(null)}
+        categories={categories}
+        color={dialog?.color}
+        defaultCategoryId={dialog?.categoryId}
+        isSaving={saveColor.isPending}
+        onSubmit={(values) => saveColor.mutate({ id: dialog?.color?.id, values })}
+      />
+
+      <PaletteImportDialog
+        open={!!pendingImport}
+        onOpenChange={(open) => !open && setPendingImport(null)}
+        filename={pendingImport?.filename}
+        preview={pendingImport?.preview}
+        isImporting={commitImport.isPending}
+        onImport={(colors) => commitImport.mutate(colors)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, FileText, Mail, Phone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadBlob } from "@/lib/export";
+import { useToast } from "@/hooks/use-toast";
+import { formatPrice } from "@shared/pricing";
+import { QUOTE_STATUSES, type QuoteRequestWithProject, type QuoteStatus } from "@shared/schema";
+
+const QUOTES_KEY = ["/api/quotes"];
+
+const STATUS_LABELS: Record<QuoteStatus, string> = {
+  new: "New",
+  quoted: "Quoted",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+const STATUS_VARIANTS: Record<QuoteStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  new: "default",
+  quoted: "secondary",
+  accepted: "outline",
+  rejected: "destructive",
+};
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+// Internal view for sales staff to review submitted configurations
+export default function QuoteRequests() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<QuoteStatus | "all">("all");
+
+  const { data: quotes = [], isLoading } = useQuery<QuoteRequestWithProject[]>({ queryKey: QUOTES_KEY });
+
+  const onError = (error: Error) => toast({
+    title: "Quote update failed",
+    description: error.message,
+    variant: "destructive"
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: QuoteStatus }) =>
+      apiRequest("PATCH", `/api/quotes/${id}`, { status }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: QUOTES_KEY }),
+    onError
+  });
+
+  const downloadQuotation = useMutation({
+    mutationFn: async (quote: QuoteRequestWithProject) => {
+      const response = await apiRequest("POST", `/api/projects/${quote.projectId}/quotation`, {
+        imageId: quote.imageId ?? undefined,
+        notes: quote.message ?? undefined
+      });
+      const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1];
+      downloadBlob(await response.blob(), fileName ?? "quotation.pdf");
+    },
+    onError
+  });
+
+  const visible = filter === "all" ? quotes : quotes.filter(quote => quote.status === filter);
+  const countFor = (status: QuoteStatus) => quotes.filter(quote => quote.status === status).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="h-16 border-b flex items-center gap-4 px-6 sticky top-0 z-50 bg-background">
+        <Link href="/">
+          <Button variant="ghost" size="icon" data-testid="link-back-to-editor">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <h1 className="text-xl font-display font-semibold">Quote Requests</h1>
+        <div className="flex-1" />
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as QuoteStatus | "all")}>
+          <TabsList>
+            <TabsTrigger value="all" data-testid="tab-quotes-all">All ({quotes.length})</TabsTrigger>
+            {QUOTE_STATUSES.map(status => (
+              <TabsTrigger key={status} value={status} data-testid={`tab-quotes-${status}`}>
+                {STATUS_LABELS[status]} ({countFor(status)})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-6 space-y-6">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading quote requests...</p>}
+
+        {!isLoading && visible.length === 0 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-empty-quotes">
+            {filter === "all" ? "No quote requests yet." : `No ${STATUS_LABELS[filter].toLowerCase()} quote requests.`}
+          </p>
+        )}
+
+        {visible.map(quote => (
+          <Card key={quote.id} className="p-4 flex gap-6" data-testid={`card-quote-${quote.id}`}>
+            <div className="w-64 flex-shrink-0 space-y-2">
+              {quote.renderUrl ? (
+                <a href={quote.renderUrl} target="_blank" rel="noreferrer">
+                  <img
+                    src={quote.renderUrl}
+                    alt={`${quote.projectName} as configured`}
+                    className="w-full rounded-md border bg-muted object-contain"
+                  />
+                </a>
+              ) : (
+                <div className="aspect-square rounded-md border bg-muted" />
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={downloadQuotation.isPending}
+                onClick={() => downloadQuotation.mutate(quote)}
+                data-testid={`button-quote-pdf-${quote.id}`}
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                Quotation PDF
+              </Button>
+            </div>
+
+            <div className="flex-1 min-w-0 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h2 className="font-semibold truncate">{quote.projectName}</h2>
+                    <Badge variant={STATUS_VARIANTS[quote.status]}>{STATUS_LABELS[quote.status]}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Submitted {formatDate(quote.createdAt)} · Quantity {quote.quantity}
+                  </p>
+                </div>
+                <Select
+                  value={quote.status}
+                  onValueChange={(status) => updateStatus.mutate({ id: quote.id, status: status as QuoteStatus })}
+                >
+                  <SelectTrigger className="w-36" data-testid={`select-quote-status-${quote.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUOTE_STATUSES.map(status => (
+                      <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="text-sm space-y-1">
+                <p className="font-medium">
+                  {quote.customerName}
+                  {quote.company && <span className="text-muted-foreground font-normal"> · {quote.company}</span>}
+                </p>
+                <p className="flex items-center gap-4 text-muted-foreground">
+                  <a href={`mailto:${quote.email}`} className="flex items-center gap-1 hover:underline">
+                    <Mail className="h-3.5 w-3.5" />
+                    {quote.email}
+                  </a>
+                  {quote.phone && (
+                    <a href={`tel:${quote.phone}`} className="flex items-center gap-1 hover:underline">
+                      <Phone className="h-3.5 w-3.5" />
+                      {quote.phone}
+                    </a>
+                  )}
+                </p>
+                {quote.message && <p className="whitespace-pre-wrap pt-1">{quote.message}</p>}
+              </div>
+
+              <p className="text-sm" data-testid={`text-quote-estimate-${quote.id}`}>
+                <span className="font-medium">Estimate {formatPrice(Number(quote.estimatedTotal))}</span>
+                <span className="text-muted-foreground">
+                  {" "}per unit · {quote.baseModelName
+                    ? `${quote.baseModelName} at ${formatPrice(Number(quote.basePrice))} plus finishes`
+                    : "finishes only"}
+                </span>
+              </p>
+
+              {quote.finishes.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Region</TableHead>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Finish</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Surcharge</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quote.finishes.map((finish, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">{finish.regionName}</TableCell>
+                        <TableCell className="font-mono text-xs">{finish.code ?? "—"}</TableCell>
+                        <TableCell>
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="h-4 w-4 rounded-sm border flex-shrink-0"
+                              style={{ backgroundColor: finish.fillHex }}
+                            />
+                            {finish.finishName ?? (
+                              <span className="text-muted-foreground">Custom {finish.fillHex}</span>
+                            )}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{finish.category ?? "—"}</TableCell>
+                        <TableCell className="text-right font-mono text-xs">
+                          {finish.surcharge === undefined ? "—" : formatPrice(finish.surcharge)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join, basename, resolve, sep } from "path";
+
+export const UPLOAD_DIR = join(process.cwd(), "uploads");
+
+// Static client assets referenced by path, e.g. palette textures. The build
+// output is checked first, then the source folder used in development.
+const PUBLIC_DIRS = [join(process.cwd(), "dist", "public"), join(process.cwd(), "client", "public")];
+
+// Images imported through the @assets alias, e.g. the example furniture. The
+// Vite dev server serves them by absolute path under /@fs; builds copy them
+// into dist/public.
+const ATTACHED_ASSETS_DIR = join(process.cwd(), "attached_assets");
+
+// Undefined for malformed escapes such as "%E0"
+function decodePath(pathname: string): string | undefined {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return undefined;
+  }
+}
+
+function publicAssetPath(pathname: string): string | undefined {
+  const decoded = decodePath(pathname);
+  if (decoded === undefined) return undefined;
+
+  if (decoded.startsWith("/@fs/")) {
+    const filePath = resolve(decoded.slice("/@fs".length));
+    return filePath.startsWith(ATTACHED_ASSETS_DIR + sep) && existsSync(filePath) ? filePath : undefined;
+  }
+
+  for (const dir of PUBLIC_DIRS) {
+    const filePath = resolve(dir, `.${decoded}`);
+    if (filePath.startsWith(dir + sep) && existsSync(filePath)) return filePath;
+  }
+  return undefined;
+}
+
+// Raised for image references the server will not read, so routes can
+// answer 400 instead of 500
+export class UnsupportedImageError extends Error {
+  name = "UnsupportedImageError";
+}
+
+// File behind an /uploads path, public asset or attached asset. Full URLs to those paths are
+// accepted too (the client keeps full URLs to its uploads) but are read from
+// disk whatever their host, never fetched.
+function localImagePath(imageUrl: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(imageUrl, "http://localhost");
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+
+  if (url.pathname.startsWith("/uploads/")) {
+    return join(UPLOAD_DIR, basename(url.pathname));
+  }
+  return publicAssetPath(url.pathname);
+}
+
+// Whether loadImageBuffer accepts the reference: data URLs, uploads, public
+// assets and attached assets. Anything else would make the server fetch a URL chosen by
+// the client.
+export function isLocalImageReference(imageUrl: string): boolean {
+  return imageUrl.startsWith("data:") || localImagePath(imageUrl) !== undefined;
+}
+
+// Resolves an image reference (data URL, /uploads path, public or attached
+// asset path) to raw bytes
+export async function loadImageBuffer(imageUrl: string): Promise<Buffer> {
+  if (imageUrl.startsWith("data:")) {
+    const commaIndex = imageUrl.indexOf(",");
+    if (commaIndex === -1) {
+      throw new UnsupportedImageError("Malformed data URL");
+    }
+    return Buffer.from(imageUrl.slice(commaIndex + 1), "base64");
+  }
+
+  const filePath = localImagePath(imageUrl);
+  if (!filePath) {
+    throw new UnsupportedImageError(`Unsupported image URL: ${imageUrl}`);
+  }
+  return readFile(filePath);
+}
+
+// Only for URLs the segmentation provider returned, and masks stored from
+// them, never for client input
+export async function loadProviderImage(imageUrl: string): Promise<Buffer> {
+  if (!/^https?:\/\//i.test(imageUrl)) {
+    return loadImageBuffer(imageUrl);
+  }
+
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -0,0 +1,113 @@
+import sharp from "sharp";
+import { writeFile, mkdir } from "fs/promises";
+import { join, basename } from "path";
+import { randomUUID } from "crypto";
+import type { BoundingBox, MaskPoint } from "@shared/schema";
+import { UPLOAD_DIR } from "./images";
+
+export const MASK_DIR = join(UPLOAD_DIR, "masks");
+const STORED_MASK_PREFIX = "masks/";
+
+export interface MaskCoverage {
+  data: Buffer; // One byte per pixel, 0 = background, 255 = part
+  width: number;
+  height: number;
+}
+
+export interface MaskStats {
+  boundingBox: BoundingBox;
+  area: number;
+  centroid: MaskPoint;
+}
+
+// Masks arrive either as white-on-transparent overlays or as opaque
+// black/white images, so coverage comes from alpha when the image has any
+// transparency and from luminance otherwise.
+export async function readMaskCoverage(input: Buffer): Promise<MaskCoverage> {
+  const { data, info } = await sharp(input)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixelCount = info.width * info.height;
+  let hasTransparency = false;
+  for (let i = 0; i < pixelCount; i++) {
+    if (data[i * 4 + 3] < 255) {
+      hasTransparency = true;
+      break;
+    }
+  }
+
+  const coverage = Buffer.alloc(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4;
+    const value = hasTransparency
+      ? data[offset + 3]
+      : 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+    coverage[i] = value >= 128 ? 255 : 0;
+  }
+
+  return { data: coverage, width: info.width, height: info.height };
+}
+
+export function computeMaskStats({ data, width, height }: MaskCoverage): MaskStats {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  let area = 0, sumX = 0, sumY = 0;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (!data[row + x]) continue;
+      area++;
+      sumX += x;
+      sumY += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (area === 0) {
+    return {
+      boundingBox: { x: 0, y: 0, width: 0, height: 0 },
+      area: 0,
+      centroid: { x: 0, y: 0 }
+    };
+  }
+
+  return {
+    boundingBox: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+    area,
+    centroid: { x: Math.round(sumX / area), y: Math.round(sumY / area) }
+  };
+}
+
+// Single-channel PNG, white = part. This is the canonical stored mask format.
+export function encodeMaskPng({ data, width, height }: MaskCoverage): Promise<Buffer> {
+  return sharp(data, { raw: { width, height, channels: 1 } })
+    .toColourspace("b-w")
+    .png({ compressionLevel: 9 })
+    .toBuffer();
+}
+
+// Writes a normalized mask under uploads/masks and returns the value stored
+// in segmentationMasks.maskData.
+export async function storeMaskPng(png: Buffer): Promise<string> {
+  await mkdir(MASK_DIR, { recursive: true });
+  const fileName = `${randomUUID()}.png`;
+  await writeFile(join(MASK_DIR, fileName), png);
+  return `${STORED_MASK_PREFIX}${fileName}`;
+}
+
+export function isStoredMask(maskData: string): boolean {
+  return maskData.startsWith(STORED_MASK_PREFIX);
+}
+
+export function storedMaskPath(maskData: string): string {
+  return join(MASK_DIR, basename(maskData));
+}
+
+export function maskUrlFor(maskId: string): string {
+  return `/api/masks/${maskId}`;
+}
@@ -0,0 +1,191 @@
+import { asc, eq, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  paletteCategories,
+  paletteColors,
+  type ImportedColor,
+  type PaletteCategoryWithColors,
+  type PaletteImportError,
+  type PaletteImportPreview
+} from "@shared/schema";
+import { colorPalette } from "@shared/palette";
+import { isLocalImageReference } from "./images";
+
+// Fills the palette tables from the bundled seed data the first time the
+// server starts against an empty database. Seeded rows keep the static ids,
+// so colorIds saved in older canvas snapshots still resolve.
+export async function seedPalette(): Promise<void> {
+  const [existing] = await db.select({ id: paletteCategories.id }).from(paletteCategories).limit(1);
+  if (existing) return;
+
+  await db.transaction(async (tx) => {
+    await tx.insert(paletteCategories).values(colorPalette.map((category, index) => ({
+      id: category.id,
+      name: category.name,
+      surcharge: String(category.surcharge ?? 0),
+      sortOrder: index
+    })));
+    await tx.insert(paletteColors).values(colorPalette.flatMap(category =>
+      category.colors.map((color, index) => ({
+        id: color.id,
+        categoryId: category.id,
+        code: color.code,
+        name: color.name,
+        hexColor: color.hexColor,
+        textureUrl: color.textureUrl,
+        tags: color.tags ?? [],
+        surcharge: color.surcharge === undefined ? null : String(color.surcharge),
+        sortOrder: index
+      }))
+    ));
+  });
+}
+
+export async function loadPalette(includeRetired = false): Promise<PaletteCategoryWithColors[]> {
+  const categories = await db.select().from(paletteCategories)
+    .orderBy(asc(paletteCategories.sortOrder), asc(paletteCategories.createdAt));
+  const colors = await db.select().from(paletteColors)
+    .where(includeRetired ? undefined : eq(paletteColors.retired, false))
+    .orderBy(asc(paletteColors.sortOrder), asc(paletteColors.createdAt));
+
+  return categories.map(category => ({
+    ...category,
+    colors: colors.filter(color => color.categoryId === category.id)
+  }));
+}
+
+// Textures a saved color may reference: the bundled grains under /textures
+// and any texture a palette finish uses, including retired ones. The server
+// reads these when rendering, so arbitrary URLs are not accepted.
+export async function isKnownTexture(textureUrl: string): Promise<boolean> {
+  if (textureUrl.startsWith("/textures/") && isLocalImageReference(textureUrl)) return true;
+
+  const [color] = await db.select({ id: paletteColors.id }).from(paletteColors)
+    .where(eq(paletteColors.textureUrl, textureUrl))
+    .limit(1);
+  return !!color;
+}
+
+const matchKey = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Compares imported rows against the current palette. A row matches an
+ * existing finish with the same name in the same category (both compared
+ * case-insensitively); codes are not unique in supplier catalogs, so they
+ * are only used to flag possible duplicates for review.
+ */
+export function diffPalette(
+  palette: PaletteCategoryWithColors[],
+  colors: ImportedColor[],
+  errors: PaletteImportError[] = []
+): PaletteImportPreview {
+  const preview: PaletteImportPreview = {
+    colors,
+    added: [],
+    updated: [],
+    unchanged: [],
+    newCategories: [],
+    duplicates: [],
+    errors
+  };
+
+  const matched = new Set<string>();
+  colors.forEach((color, index) => {
+    const category = palette.find(c => matchKey(c.name) === matchKey(color.category));
+    const existing = category?.colors.find(c => matchKey(c.name) === matchKey(color.name));
+
+    if (!category && !preview.newCategories.some(name => matchKey(name) === matchKey(color.category))) {
+      preview.newCategories.push(color.category);
+    }
+
+    if (!existing) {
+      preview.added.push(index);
+      return;
+    }
+
+    matched.add(existing.id);
+    const changed = existing.code !== color.code ||
+      existing.hexColor.toUpperCase() !== color.hexColor ||
+      (existing.textureUrl ?? null) !== (color.textureUrl ?? existing.textureUrl ?? null) ||
+      (color.tags !== undefined && [...existing.tags].sort().join() !== [...color.tags].sort().join());
+    if (changed) {
+      preview.updated.push({ index, before: existing });
+    } else {
+      preview.unchanged.push(index);
+    }
+  });
+
+  const rowsByCode = new Map<string, number[]>();
+  colors.forEach((color, index) => {
+    if (!color.code) return;
+    const key = matchKey(color.code);
+    rowsByCode.set(key, [...(rowsByCode.get(key) ?? []), index]);
+  });
+
+  const existingColors = palette.flatMap(category => category.colors);
+  rowsByCode.forEach((rows, key) => {
+    const existing = existingColors
+      .filter(color => !matched.has(color.id) && color.code && matchKey(color.code) === key)
+      .map(color => color.name);
+    if (rows.length > 1 || existing.length > 0) {
+      preview.duplicates.push({ code: colors[rows[0]].code, rows, existing });
+    }
+  });
+
+  return preview;
+}
+
+// Adds new finishes (creating their categories) and updates matched ones
+export async function applyPaletteImport(colors: ImportedColor[]): Promise<PaletteImportPreview> {
+  const palette = await loadPalette(true);
+  const preview = diffPalette(palette, colors);
+
+  await db.transaction(async (tx) => {
+    const categoryIds = new Map(palette.map(category => [matchKey(category.name), category.id]));
+    let nextCategoryOrder = palette.reduce((last, category) => Math.max(last, category.sortOrder), -1) + 1;
+
+    for (const name of preview.newCategories) {
+      const [category] = await tx.insert(paletteCategories)
+        .values({ name, sortOrder: nextCategoryOrder++ })
+        .returning();
+      categoryIds.set(matchKey(name), category.id);
+    }
+
+    const nextColorOrder = new Map(palette.map(category => [
+      category.id,
+      category.colors.reduce((last, color) => Math.max(last, color.sortOrder), -1) + 1
+    ]));
+
+    for (const index of preview.added) {
+      const color = colors[index];
+      const categoryId = categoryIds.get(matchKey(color.category))!;
+      const sortOrder = nextColorOrder.get(categoryId) ?? 0;
+      nextColorOrder.set(categoryId, sortOrder + 1);
+
+      await tx.insert(paletteColors).values({
+        categoryId,
+        code: color.code,
+        name: color.name,
+        hexColor: color.hexColor,
+        textureUrl: color.textureUrl ?? null,
+        tags: color.tags ?? [],
+        sortOrder
+      });
+    }
+
+    for (const { index, before } of preview.updated) {
+      const color = colors[index];
+      await tx.update(paletteColors)
+        .set({
+          code: color.code,
+          hexColor: color.hexColor,
+          textureUrl: color.textureUrl ?? before.textureUrl,
+          tags: color.tags ?? before.tags,
+          updatedAt: sql`now()`
+        })
+        .where(eq(paletteColors.id, before.id));
+    }
+  });
+
+  return preview;
+}
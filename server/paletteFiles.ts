@@ -0,0 +1,324 @@
+import { importedColorSchema, type ImportedColor, type PaletteImportError } from "@shared/schema";
+import type { ColorCategory } from "@shared/palette";
+import { labToRgb, rgbToHex } from "@shared/color";
+
+// Reading and writing supplier palette files. Every format is parsed into a
+// flat list of ImportedColor rows; rows that fail validation are reported
+// with their 1-based position instead of failing the whole file.
+
+export type PaletteFileFormat = "csv" | "ase" | "json";
+
+export interface ParsedPaletteFile {
+  colors: ImportedColor[];
+  errors: PaletteImportError[];
+}
+
+export function detectPaletteFormat(filename: string, requested?: string): PaletteFileFormat | null {
+  const format = (requested || filename.split(".").pop() || "").toLowerCase();
+  return format === "csv" || format === "ase" || format === "json" ? format : null;
+}
+
+export function parsePaletteFile(buffer: Buffer, format: PaletteFileFormat): ParsedPaletteFile {
+  switch (format) {
+    case "csv":
+      return validateRows(parseCsvRows(buffer.toString("utf8")));
+    case "ase":
+      return validateRows(parseAse(buffer));
+    case "json":
+      return validateRows(parseJsonRows(buffer.toString("utf8")));
+  }
+}
+
+function validateRows(rows: Record<string, unknown>[]): ParsedPaletteFile {
+  const colors: ImportedColor[] = [];
+  const errors: PaletteImportError[] = [];
+
+  rows.forEach((row, index) => {
+    const hex = typeof row.hexColor === "string" ? row.hexColor.trim() : row.hexColor;
+    const parsed = importedColorSchema.safeParse({
+      ...row,
+      hexColor: typeof hex === "string" && /^[0-9a-f]{6}$/i.test(hex) ? `#${hex}` : hex,
+      tags: typeof row.tags === "string" ? splitTags(row.tags) : row.tags,
+      // Blank CSV cells mean no texture was given, as for tags
+      textureUrl: row.textureUrl === "" ? undefined : row.textureUrl
+    });
+    if (parsed.success) {
+      colors.push({ ...parsed.data, hexColor: parsed.data.hexColor.toUpperCase() });
+    } else {
+      errors.push({
+        row: index + 1,
+        message: parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+      });
+    }
+  });
+
+  return { colors, errors };
+}
+
+// A CSV cell or single JSON string holding several tags
+function splitTags(value: string): string[] | undefined {
+  const tags = value.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+}
+
+// --- CSV ---------------------------------------------------------------
+
+const CSV_COLUMNS = ["code", "name", "hex", "category", "tags", "textureUrl"] as const;
+
+// Tags share one cell, e.g. "wood;matte;indoor"
+const TAG_SEPARATOR = /[;|]/;
+
+const CSV_HEADER_ALIASES: Record<string, string> = {
+  code: "code",
+  "color code": "code",
+  name: "name",
+  "color name": "name",
+  hex: "hexColor",
+  hexcolor: "hexColor",
+  "hex color": "hexColor",
+  color: "hexColor",
+  category: "category",
+  group: "category",
+  texture: "textureUrl",
+  textureurl: "textureUrl",
+  tags: "tags",
+  tag: "tags",
+};
+
+// RFC 4180 style: quoted fields may contain commas, newlines and "" escapes
+function splitCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function parseCsvRows(text: string): Record<string, unknown>[] {
+  const rows = splitCsv(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) return [];
+
+  // Without a recognisable header the columns are code, name, hex, category, tags, texture
+  const header = rows[0].map(cell => CSV_HEADER_ALIASES[cell.trim().toLowerCase()]);
+  const hasHeader = header.includes("name") && header.includes("hexColor");
+  const keys = hasHeader ? header : ["code", "name", "hexColor", "category", "tags", "textureUrl"];
+
+  return rows.slice(hasHeader ? 1 : 0).map(cells => {
+    const row: Record<string, unknown> = {};
+    keys.forEach((key, index) => {
+      if (key && cells[index] !== undefined) row[key] = cells[index].trim();
+    });
+    return row;
+  });
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function paletteToCsv(categories: ColorCategory[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const category of categories) {
+    for (const color of category.colors) {
+      lines.push([
+        color.code,
+        color.name,
+        color.hexColor,
+        category.name,
+        (color.tags ?? []).join(";"),
+        color.textureUrl ?? ""
+      ].map(csvField).join(","));
+    }
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// --- Adobe Swatch Exchange ---------------------------------------------
+//
+// Big-endian: "ASEF", version 1.0, block count, then blocks of
+// type (u16), length (u32) and body. Group start blocks name the category
+// for the colors that follow until the matching group end.
+
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+
+// Swatch names carry the supplier code as "CODE - Name"
+const ASE_NAME_SEPARATOR = " - ";
+
+function readAseString(buffer: Buffer, offset: number): { value: string; next: number } {
+  const length = buffer.readUInt16BE(offset); // UTF-16 code units, including the terminator
+  let value = "";
+  for (let i = 0; i < length - 1; i++) {
+    value += String.fromCharCode(buffer.readUInt16BE(offset + 2 + i * 2));
+  }
+  return { value, next: offset + 2 + length * 2 };
+}
+
+// Unknown color models come back null and are reported as invalid rows
+function aseColorToHex(model: string, values: number[]): string | null {
+  const clamp = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255);
+  switch (model) {
+    case "RGB ":
+      return rgbToHex({ r: clamp(values[0]), g: clamp(values[1]), b: clamp(values[2]) });
+    case "CMYK": {
+      const [c, m, y, k] = values;
+      return rgbToHex({ r: clamp((1 - c) * (1 - k)), g: clamp((1 - m) * (1 - k)), b: clamp((1 - y) * (1 - k)) });
+    }
+    case "LAB ":
+      // L is stored as 0-1, a and b as-is
+      return rgbToHex(labToRgb({ l: values[0] * 100, a: values[1], b: values[2] }));
+    case "Gray":
+      return rgbToHex({ r: clamp(values[0]), g: clamp(values[0]), b: clamp(values[0]) });
+    default:
+      return null;
+  }
+}
+
+function parseAse(buffer: Buffer): Record<string, unknown>[] {
+  if (buffer.length < 12 || buffer.toString("ascii", 0, 4) !== "ASEF") {
+    throw new Error("Not an Adobe Swatch Exchange file");
+  }
+
+  const blockCount = buffer.readUInt32BE(8);
+  const rows: Record<string, unknown>[] = [];
+  let group = "";
+  let offset = 12;
+
+  for (let block = 0; block < blockCount && offset + 6 <= buffer.length; block++) {
+    const type = buffer.readUInt16BE(offset);
+    const length = buffer.readUInt32BE(offset + 2);
+    const body = offset + 6;
+
+    if (type === ASE_GROUP_START) {
+      group = readAseString(buffer, body).value;
+    } else if (type === ASE_GROUP_END) {
+      group = "";
+    } else if (type === ASE_COLOR) {
+      const { value: swatchName, next } = readAseString(buffer, body);
+      const model = buffer.toString("ascii", next, next + 4);
+      const channels = model === "CMYK" ? 4 : model === "Gray" ? 1 : 3;
+      const values = Array.from({ length: channels }, (_, i) => buffer.readFloatBE(next + 4 + i * 4));
+
+      const separator = swatchName.indexOf(ASE_NAME_SEPARATOR);
+      rows.push({
+        code: separator > 0 ? swatchName.slice(0, separator) : "",
+        name: separator > 0 ? swatchName.slice(separator + ASE_NAME_SEPARATOR.length) : swatchName,
+        hexColor: aseColorToHex(model, values),
+        category: group || "Imported"
+      });
+    }
+
+    offset = body + length;
+  }
+
+  return rows;
+}
+
+function aseString(value: string): Buffer {
+  const buffer = Buffer.alloc(2 + (value.length + 1) * 2);
+  buffer.writeUInt16BE(value.length + 1, 0);
+  for (let i = 0; i < value.length; i++) {
+    buffer.writeUInt16BE(value.charCodeAt(i), 2 + i * 2);
+  }
+  return buffer;
+}
+
+function aseBlock(type: number, body: Buffer): Buffer {
+  const header = Buffer.alloc(6);
+  header.writeUInt16BE(type, 0);
+  header.writeUInt32BE(body.length, 2);
+  return Buffer.concat([header, body]);
+}
+
+export function paletteToAse(categories: ColorCategory[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const category of categories) {
+    blocks.push(aseBlock(ASE_GROUP_START, aseString(category.name)));
+    for (const color of category.colors) {
+      const n = parseInt(color.hexColor.slice(1), 16);
+      const values = Buffer.alloc(4 + 12 + 2);
+      values.write("RGB ", 0, "ascii");
+      values.writeFloatBE(((n >> 16) & 255) / 255, 4);
+      values.writeFloatBE(((n >> 8) & 255) / 255, 8);
+      values.writeFloatBE((n & 255) / 255, 12);
+      values.writeUInt16BE(2, 16); // Normal (not global or spot) color
+      const name = color.code ? `${color.code}${ASE_NAME_SEPARATOR}${color.name}` : color.name;
+      blocks.push(aseBlock(ASE_COLOR, Buffer.concat([aseString(name), values])));
+    }
+    blocks.push(aseBlock(ASE_GROUP_END, Buffer.alloc(0)));
+  }
+
+  const header = Buffer.alloc(12);
+  header.write("ASEF", 0, "ascii");
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(0, 6);
+  header.writeUInt32BE(blocks.length, 8);
+  return Buffer.concat([header, ...blocks]);
+}
+
+// --- JSON --------------------------------------------------------------
+//
+// Accepts either the export shape (categories with nested colors) or a flat
+// array of { code, name, hex/hexColor, category, tags } rows.
+
+function parseJsonRows(text: string): Record<string, unknown>[] {
+  const data = JSON.parse(text);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.categories) ? data.categories : [];
+
+  return items.flatMap((item): Record<string, unknown>[] => {
+    if (!item || typeof item !== "object") return [{}];
+    const entry = item as Record<string, unknown>;
+
+    if (Array.isArray(entry.colors)) {
+      return entry.colors.map(color => ({
+        ...(color as Record<string, unknown>),
+        hexColor: (color as Record<string, unknown>).hexColor ?? (color as Record<string, unknown>).hex,
+        category: entry.name
+      }));
+    }
+    return [{ ...entry, hexColor: entry.hexColor ?? entry.hex }];
+  });
+}
+
+export function paletteToJson(categories: ColorCategory[]): string {
+  return JSON.stringify({
+    categories: categories.map(category => ({
+      name: category.name,
+      colors: category.colors.map(({ code, name, hexColor, textureUrl, tags }) => ({ code, name, hexColor, textureUrl, tags }))
+    }))
+  }, null, 2);
+}
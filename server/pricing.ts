@@ -0,0 +1,26 @@
+import { asc } from "drizzle-orm";
+import { db } from "./db";
+import { baseModels, type BaseModel, type InsertBaseModel } from "@shared/schema";
+
+// Starting price list, editable from the palette admin. Upholstered pieces
+// are area-weighted: their frames are finished as a whole, so splitting one
+// into more parts should not multiply the finishing cost.
+const SEED_BASE_MODELS: InsertBaseModel[] = [
+  { name: "Three-Seat Sofa", basePrice: "1450", areaWeighted: true },
+  { name: "Dining Chair", basePrice: "320", areaWeighted: false },
+  { name: "Office Chair", basePrice: "540", areaWeighted: false },
+  { name: "Side Table", basePrice: "280", areaWeighted: true }
+];
+
+// Fills the base model table the first time the server starts against an
+// empty database
+export async function seedBaseModels(): Promise<void> {
+  const [existing] = await db.select({ id: baseModels.id }).from(baseModels).limit(1);
+  if (existing) return;
+
+  await db.insert(baseModels).values(SEED_BASE_MODELS);
+}
+
+export async function loadBaseModels(): Promise<BaseModel[]> {
+  return db.select().from(baseModels).orderBy(asc(baseModels.name));
+}
@@ -0,0 +1,190 @@
+import PDFDocument from "pdfkit";
+import { findPaletteEntry, type ColorCategory, type ColorItem } from "@shared/palette";
+import type { Project, ProjectImage } from "@shared/schema";
+import { renderDesign, renderOriginal, type RenderLayer, type RenderOptions } from "./render";
+
+// Quotation sheet for a customized design: the rendered furniture next to
+// the original photo, the finish chosen for every named part and free-form
+// notes for the sales team, on one A4 page (the table continues if needed).
+
+export interface QuotationInput {
+  project: Project;
+  image: ProjectImage;
+  layers: RenderLayer[];
+  palette: ColorCategory[]; // Including retired finishes, so older projects still resolve
+  notes?: string;
+  date?: Date;
+}
+
+export interface QuotationRegion {
+  name: string;
+  fillHex: string;
+  finish?: ColorItem;
+  category?: string;
+}
+
+const MARGIN = 50;
+const IMAGE_GAP = 16;
+const MAX_IMAGE_HEIGHT = 260;
+const ROW_HEIGHT = 22;
+const SWATCH_SIZE = 12;
+
+// Photos are embedded at roughly 2x their printed size
+const IMAGE_OPTIONS: RenderOptions = { format: "jpeg", width: 1000, height: 1000, quality: 85 };
+
+const TEXT_COLOR = "#1F2937";
+const MUTED_COLOR = "#6B7280";
+const RULE_COLOR = "#E5E7EB";
+const STRIPE_COLOR = "#F9FAFB";
+
+// Column widths as fractions of the printable width
+const COLUMNS = [
+  { title: "Region", width: 0.26 },
+  { title: "Code", width: 0.12 },
+  { title: "Finish", width: 0.3 },
+  { title: "Category", width: 0.32 }
+];
+
+/**
+ * Resolves the finish of each colored part by the palette id saved with its
+ * color, the same rule the price estimate uses. Colors without one are
+ * listed as custom colors.
+ */
+export function quotationRegions(layers: RenderLayer[], palette: ColorCategory[]): QuotationRegion[] {
+  return layers.map(({ color }, index) => {
+    const entry = findPaletteEntry(palette, color.colorId);
+    return {
+      name: color.regionName?.trim() || `Part ${index + 1}`,
+      fillHex: color.fillHex,
+      finish: entry?.color,
+      category: entry?.category.name
+    };
+  });
+}
+
+function drawImage(doc: PDFKit.PDFDocument, image: Buffer, label: string, x: number, y: number, width: number, height: number) {
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED_COLOR)
+    .text(label.toUpperCase(), x, y, { width, characterSpacing: 0.5 });
+  doc.image(image, x, y + 14, { fit: [width, height], align: "center", valign: "center" });
+  doc.rect(x, y + 14, width, height).lineWidth(0.5).strokeColor(RULE_COLOR).stroke();
+}
+
+function drawTableHeader(doc: PDFKit.PDFDocument, y: number, widths: number[]) {
+  let x = MARGIN;
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED_COLOR);
+  COLUMNS.forEach((column, index) => {
+    doc.text(column.title.toUpperCase(), x + 4, y, { width: widths[index] - 8, characterSpacing: 0.5 });
+    x += widths[index];
+  });
+  const bottom = y + 14;
+  doc.moveTo(MARGIN, bottom).lineTo(MARGIN + widths.reduce((a, b) => a + b, 0), bottom)
+    .lineWidth(0.75).strokeColor(RULE_COLOR).stroke();
+  return bottom + 4;
+}
+
+function drawRegionRow(doc: PDFKit.PDFDocument, region: QuotationRegion, y: number, widths: number[], striped: boolean) {
+  const tableWidth = widths.reduce((a, b) => a + b, 0);
+  if (striped) {
+    doc.rect(MARGIN, y, tableWidth, ROW_HEIGHT).fillColor(STRIPE_COLOR).fill();
+  }
+
+  const textY = y + (ROW_HEIGHT - 10) / 2;
+  const cell = (text: string, column: number, options: { bold?: boolean; muted?: boolean; indent?: number } = {}) => {
+    const x = MARGIN + widths.slice(0, column).reduce((a, b) => a + b, 0) + 4 + (options.indent ?? 0);
+    doc.font(options.bold ? "Helvetica-Bold" : "Helvetica").fontSize(10)
+      .fillColor(options.muted ? MUTED_COLOR : TEXT_COLOR)
+      .text(text, x, textY, { width: widths[column] - 8 - (options.indent ?? 0), lineBreak: false, ellipsis: true });
+  };
+
+  cell(region.name, 0, { bold: true });
+  cell(region.finish?.code || "—", 1, { muted: !region.finish?.code });
+
+  const swatchX = MARGIN + widths[0] + widths[1] + 4;
+  doc.rect(swatchX, y + (ROW_HEIGHT - SWATCH_SIZE) / 2, SWATCH_SIZE, SWATCH_SIZE)
+    .fillColor(region.fillHex).strokeColor(RULE_COLOR).lineWidth(0.5).fillAndStroke();
+  cell(region.finish?.name ?? `Custom color ${region.fillHex.toUpperCase()}`, 2, {
+    indent: SWATCH_SIZE + 6,
+    muted: !region.finish
+  });
+  cell(region.category ?? "—", 3, { muted: !region.category });
+}
+
+// Renders the before and after images and lays out the sheet
+export async function buildQuotationPdf(input: QuotationInput): Promise<Buffer> {
+  const [after, before] = await Promise.all([
+    renderDesign(input.image.originalImagePath, input.layers, IMAGE_OPTIONS),
+    renderOriginal(input.image.originalImagePath, IMAGE_OPTIONS)
+  ]);
+  const regions = quotationRegions(input.layers, input.palette);
+  const date = input.date ?? new Date();
+
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    info: { Title: `Quotation - ${input.project.name}`, CreationDate: date }
+  });
+  const chunks: Buffer[] = [];
+  doc.on("data", chunk => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const contentWidth = doc.page.width - MARGIN * 2;
+  const pageBottom = doc.page.height - MARGIN;
+
+  // Header
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED_COLOR)
+    .text("QUOTATION REQUEST", MARGIN, MARGIN, { characterSpacing: 1 });
+  doc.font("Helvetica-Bold").fontSize(20).fillColor(TEXT_COLOR)
+    .text(input.project.name, MARGIN, MARGIN + 14, { width: contentWidth });
+  doc.font("Helvetica").fontSize(10).fillColor(MUTED_COLOR)
+    .text(date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }), { width: contentWidth });
+  if (input.project.description) {
+    doc.moveDown(0.3).fillColor(TEXT_COLOR).text(input.project.description, { width: contentWidth });
+  }
+
+  // Before and after, side by side at the photo's aspect ratio
+  const imageWidth = (contentWidth - IMAGE_GAP) / 2;
+  const imageHeight = Math.min(MAX_IMAGE_HEIGHT, imageWidth * (after.height / after.width));
+  let y = doc.y + 20;
+  drawImage(doc, before.data, "Before", MARGIN, y, imageWidth, imageHeight);
+  drawImage(doc, after.data, "After", MARGIN + imageWidth + IMAGE_GAP, y, imageWidth, imageHeight);
+  y += imageHeight + 14 + 28;
+
+  // Finish table
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(TEXT_COLOR).text("Finishes", MARGIN, y);
+  y = doc.y + 8;
+  const widths = COLUMNS.map(column => column.width * contentWidth);
+  y = drawTableHeader(doc, y, widths);
+
+  if (regions.length === 0) {
+    doc.font("Helvetica").fontSize(10).fillColor(MUTED_COLOR).text("No colored parts.", MARGIN + 4, y + 6);
+    y = doc.y;
+  }
+  regions.forEach((region, index) => {
+    if (y + ROW_HEIGHT > pageBottom) {
+      doc.addPage();
+      y = drawTableHeader(doc, MARGIN, widths);
+    }
+    drawRegionRow(doc, region, y, widths, index % 2 === 1);
+    y += ROW_HEIGHT;
+  });
+
+  // Notes
+  const notes = input.notes?.trim();
+  doc.font("Helvetica").fontSize(10);
+  const notesHeight = 24 + (notes ? doc.heightOfString(notes, { width: contentWidth }) : 12);
+  y += 24;
+  if (y + notesHeight > pageBottom) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(TEXT_COLOR).text("Notes", MARGIN, y);
+  doc.moveDown(0.4).font("Helvetica").fontSize(10)
+    .fillColor(notes ? TEXT_COLOR : MUTED_COLOR)
+    .text(notes || "None", { width: contentWidth });
+
+  doc.end();
+  return finished;
+}
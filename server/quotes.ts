@@ -0,0 +1,99 @@
+import { desc, eq } from "drizzle-orm";
+import { writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import {
+  baseModels,
+  projects,
+  quoteRequests,
+  type InsertQuoteRequest,
+  type ProjectImage,
+  type QuoteFinish,
+  type QuoteRequest,
+  type QuoteRequestWithProject,
+  type QuoteStatus
+} from "@shared/schema";
+import type { ColorCategory } from "@shared/palette";
+import { estimatePrice } from "@shared/pricing";
+import { UPLOAD_DIR } from "./images";
+import { renderDesign, type RenderLayer, type RenderOptions } from "./render";
+import { quotationRegions } from "./quotation";
+
+// Large enough for sales to zoom in on details
+const QUOTE_RENDER_OPTIONS: RenderOptions = { format: "jpeg", width: 1600, height: 1600, quality: 85 };
+
+// Newest first, optionally only those with the given status
+export async function listQuoteRequests(status?: QuoteStatus): Promise<QuoteRequestWithProject[]> {
+  const rows = await db.select({ quote: quoteRequests, projectName: projects.name })
+    .from(quoteRequests)
+    .innerJoin(projects, eq(quoteRequests.projectId, projects.id))
+    .where(status ? eq(quoteRequests.status, status) : undefined)
+    .orderBy(desc(quoteRequests.createdAt));
+
+  return rows.map(({ quote, projectName }) => ({ ...quote, projectName }));
+}
+
+export async function loadQuoteRequest(id: string): Promise<QuoteRequestWithProject | null> {
+  const [row] = await db.select({ quote: quoteRequests, projectName: projects.name })
+    .from(quoteRequests)
+    .innerJoin(projects, eq(quoteRequests.projectId, projects.id))
+    .where(eq(quoteRequests.id, id))
+    .limit(1);
+
+  return row ? { ...row.quote, projectName: row.projectName } : null;
+}
+
+// The base model the project is priced on, if any
+async function loadProjectBaseModel(projectId: string) {
+  const [row] = await db.select({ model: baseModels })
+    .from(projects)
+    .innerJoin(baseModels, eq(projects.baseModelId, baseModels.id))
+    .where(eq(projects.id, projectId))
+    .limit(1);
+  return row?.model;
+}
+
+// Renders the configuration and records its finishes and price estimate
+// alongside the customer's details
+export async function createQuoteRequest(
+  values: InsertQuoteRequest,
+  image: ProjectImage,
+  layers: RenderLayer[],
+  palette: ColorCategory[]
+): Promise<QuoteRequest> {
+  const rendered = await renderDesign(image.originalImagePath, layers, QUOTE_RENDER_OPTIONS);
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const fileName = `quote-${randomUUID()}.jpg`;
+  await writeFile(join(UPLOAD_DIR, fileName), rendered.data);
+
+  const model = await loadProjectBaseModel(values.projectId);
+  const estimate = estimatePrice(model, layers.map(({ mask, color }) => ({
+    id: color.id,
+    name: color.regionName ?? "",
+    colorId: color.colorId,
+    area: mask.area
+  })), palette);
+
+  const surcharges = new Map(estimate.lines.map(line => [line.regionId, line.amount]));
+  const finishes: QuoteFinish[] = quotationRegions(layers, palette).map((region, index) => ({
+    regionName: region.name,
+    fillHex: region.fillHex,
+    colorId: region.finish?.id,
+    code: region.finish?.code || undefined,
+    finishName: region.finish?.name,
+    category: region.category,
+    surcharge: surcharges.get(layers[index].color.id) ?? 0
+  }));
+
+  const [created] = await db.insert(quoteRequests).values({
+    ...values,
+    imageId: image.id,
+    renderUrl: `/uploads/${fileName}`,
+    finishes,
+    baseModelName: model?.name ?? null,
+    basePrice: String(estimate.basePrice),
+    estimatedTotal: String(estimate.total)
+  }).returning();
+  return created;
+}
@@ -0,0 +1,253 @@
+import sharp from "sharp";
+import { readFile } from "fs/promises";
+import { hexToRgb } from "@shared/color";
+import { recolorPixels, TEXTURE_TILE_FRACTION } from "@shared/recolor";
+import { MAX_RENDER_DIMENSION, type ColorApplication, type RenderFormat, type SegmentationMask } from "@shared/schema";
+import { loadImageBuffer, loadProviderImage } from "./images";
+import { isStoredMask, readMaskCoverage, storedMaskPath } from "./masks";
+
+// Server-side counterpart of renderTintedLayers in client/src/lib/masks.ts.
+// Recolor layers share recolorPixels with the browser; the other blend modes
+// reproduce the canvas composite operations pixel by pixel, so a render
+// matches what the editor shows.
+
+export interface RenderLayer {
+  mask: SegmentationMask;
+  color: ColorApplication;
+}
+
+export interface RenderOptions {
+  format: RenderFormat;
+  width?: number; // Fit inside, keeping the aspect ratio; never upscaled
+  height?: number;
+  quality: number; // 1-100, JPEG and WebP only
+}
+
+export interface RenderedImage {
+  data: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+interface Texture {
+  data: Buffer; // RGB
+  width: number;
+  height: number;
+}
+
+// Output pixels are RGBA
+const CHANNELS = 4;
+
+// Each output pixel costs 4 bytes plus a coverage byte and 3 texture bytes
+// per layer, so renders are capped by area as well as by side
+const MAX_RENDER_PIXELS = MAX_RENDER_DIMENSION * MAX_RENDER_DIMENSION;
+
+const CONTENT_TYPES: Record<RenderFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp"
+};
+
+// Decoded textures, least recently used first. Saved colors only reference
+// known textures, but rows from before that check may hold anything, so the
+// cache is bounded rather than keyed on trust.
+const textureCache = new Map<string, Promise<Texture>>();
+const TEXTURE_CACHE_LIMIT = 32;
+
+function loadTexture(url: string): Promise<Texture> {
+  let cached = textureCache.get(url);
+  if (cached) {
+    textureCache.delete(url);
+  } else {
+    cached = loadImageBuffer(url)
+      .then(input => sharp(input).removeAlpha().raw().toBuffer({ resolveWithObject: true }))
+      .then(({ data, info }) => ({ data, width: info.width, height: info.height }));
+    cached.catch(() => textureCache.delete(url));
+  }
+  textureCache.set(url, cached);
+
+  if (textureCache.size > TEXTURE_CACHE_LIMIT) {
+    textureCache.delete(textureCache.keys().next().value!);
+  }
+  return cached;
+}
+
+// Stored masks are read from disk; older rows may still hold a provider URL
+async function loadCoverage(mask: SegmentationMask, width: number, height: number): Promise<Buffer> {
+  const input = isStoredMask(mask.maskData)
+    ? await readFile(storedMaskPath(mask.maskData))
+    : await loadProviderImage(mask.maskData);
+  const coverage = await readMaskCoverage(input);
+
+  if (coverage.width === width && coverage.height === height) return coverage.data;
+
+  // Canvas scales masks with bilinear filtering, which softens the edge
+  return sharp(coverage.data, { raw: { width: coverage.width, height: coverage.height, channels: 1 } })
+    .resize(width, height, { fit: "fill", kernel: "linear" })
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+}
+
+// Samples the texture tiled as the client's canvas pattern is: centered on
+// the image, rotated, with one tile spanning TEXTURE_TILE_FRACTION of the
+// width at scale 1. Returns RGB per pixel.
+function tileTexture(texture: Texture, color: ColorApplication, width: number, height: number): Uint8Array {
+  const tileScale = (width * TEXTURE_TILE_FRACTION * Number(color.textureScale)) / texture.width;
+  const angle = -color.textureRotation * Math.PI / 180;
+  const cos = Math.cos(angle) / tileScale;
+  const sin = Math.sin(angle) / tileScale;
+  const tiled = new Uint8Array(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    const dy = y + 0.5 - height / 2;
+    for (let x = 0; x < width; x++) {
+      const dx = x + 0.5 - width / 2;
+      const u = Math.floor(dx * cos - dy * sin);
+      const v = Math.floor(dx * sin + dy * cos);
+      const tx = ((u % texture.width) + texture.width) % texture.width;
+      const ty = ((v % texture.height) + texture.height) % texture.height;
+      const source = (ty * texture.width + tx) * 3;
+      const target = (y * width + x) * 3;
+      tiled[target] = texture.data[source];
+      tiled[target + 1] = texture.data[source + 1];
+      tiled[target + 2] = texture.data[source + 2];
+    }
+  }
+  return tiled;
+}
+
+// Separable blend functions from the Compositing and Blending spec, on 0-1 values
+const overlay = (backdrop: number, source: number) =>
+  backdrop <= 0.5 ? 2 * backdrop * source : 1 - 2 * (1 - backdrop) * (1 - source);
+
+const BLEND_FUNCTIONS: Record<string, (backdrop: number, source: number) => number> = {
+  normal: (_backdrop, source) => source,
+  multiply: (backdrop, source) => backdrop * source,
+  screen: (backdrop, source) => backdrop + source - backdrop * source,
+  overlay
+};
+
+// A flat fill (grain overlaid on it for textured finishes) blended into the
+// image under the mask, as the canvas does for the non-recolor modes
+function blendLayer(
+  pixels: Buffer,
+  coverage: Buffer,
+  color: ColorApplication,
+  texture: Uint8Array | undefined
+) {
+  const blend = BLEND_FUNCTIONS[color.blendMode] ?? BLEND_FUNCTIONS.multiply;
+  const opacity = Number(color.opacity);
+  const { r, g, b } = hexToRgb(color.fillHex);
+  const fill = [r / 255, g / 255, b / 255];
+
+  for (let i = 0; i < coverage.length; i++) {
+    const alpha = (coverage[i] / 255) * opacity;
+    if (alpha === 0) continue;
+
+    const offset = i * CHANNELS;
+    for (let channel = 0; channel < 3; channel++) {
+      const source = texture ? overlay(fill[channel], texture[i * 3 + channel] / 255) : fill[channel];
+      const backdrop = pixels[offset + channel] / 255;
+      const blended = backdrop + (blend(backdrop, source) - backdrop) * alpha;
+      pixels[offset + channel] = Math.round(Math.min(1, Math.max(0, blended)) * 255);
+    }
+  }
+}
+
+// Fits the requested box without upscaling past the photo's own resolution
+// or exceeding MAX_RENDER_PIXELS
+function outputSize(naturalWidth: number, naturalHeight: number, options: RenderOptions) {
+  const scale = Math.min(
+    options.width ? options.width / naturalWidth : 1,
+    options.height ? options.height / naturalHeight : 1,
+    Math.sqrt(MAX_RENDER_PIXELS / (naturalWidth * naturalHeight)),
+    1
+  );
+  if (scale === 1) return { width: naturalWidth, height: naturalHeight };
+  return {
+    width: Math.max(1, Math.round(naturalWidth * scale)),
+    height: Math.max(1, Math.round(naturalHeight * scale))
+  };
+}
+
+// Decodes the photo upright at the output size, as RGBA
+async function loadPhoto(imagePath: string, options: RenderOptions) {
+  const input = await loadImageBuffer(imagePath);
+  const metadata = await sharp(input).metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new Error("Unable to read image dimensions");
+  }
+
+  // Browsers display photos EXIF-rotated, and masks are drawn over that
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const { width, height } = outputSize(
+    rotated ? metadata.height : metadata.width,
+    rotated ? metadata.width : metadata.height,
+    options
+  );
+
+  const pixels = await sharp(input)
+    .rotate()
+    .resize(width, height, { fit: "fill" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+
+  return { pixels, width, height };
+}
+
+async function encode(pixels: Buffer, width: number, height: number, options: RenderOptions): Promise<RenderedImage> {
+  let image = sharp(pixels, { raw: { width, height, channels: CHANNELS } });
+  if (options.format === "jpeg") {
+    // JPEG has no alpha; flatten onto white as the client export does
+    image = image.flatten({ background: "#FFFFFF" }).jpeg({ quality: options.quality, mozjpeg: true });
+  } else if (options.format === "webp") {
+    image = image.webp({ quality: options.quality });
+  } else {
+    image = image.png();
+  }
+
+  return {
+    data: await image.toBuffer(),
+    contentType: CONTENT_TYPES[options.format],
+    width,
+    height
+  };
+}
+
+// The untouched photo with the same sizing and encoding as renderDesign
+export async function renderOriginal(imagePath: string, options: RenderOptions): Promise<RenderedImage> {
+  const { pixels, width, height } = await loadPhoto(imagePath, options);
+  return encode(pixels, width, height, options);
+}
+
+// Composites the layers over the photo in order and encodes the result
+export async function renderDesign(
+  imagePath: string,
+  layers: RenderLayer[],
+  options: RenderOptions
+): Promise<RenderedImage> {
+  const { pixels, width, height } = await loadPhoto(imagePath, options);
+
+  const [coverages, textures] = await Promise.all([
+    Promise.all(layers.map(layer => loadCoverage(layer.mask, width, height))),
+    Promise.all(layers.map(layer => layer.color.textureUrl ? loadTexture(layer.color.textureUrl) : undefined))
+  ]);
+
+  layers.forEach(({ color }, index) => {
+    const texture = textures[index];
+    const tiled = texture ? tileTexture(texture, color, width, height) : undefined;
+
+    if (color.blendMode === "recolor") {
+      // The grain's red channel drives the lightness detail, as in the browser
+      const detail = tiled ? tiled.filter((_value, i) => i % 3 === 0) : undefined;
+      recolorPixels(pixels, CHANNELS, coverages[index], color.fillHex, Number(color.opacity), detail);
+    } else {
+      blendLayer(pixels, coverages[index], color, tiled);
+    }
+  });
+
+  return encode(pixels, width, height, options);
+}
@@ -7,18 +7,68 @@ import {
   segmentationMasks, 
   colorApplications, 
   recentColors, 
+  canvasStates,
+  paletteCategories,
+  paletteColors,
+  favoriteColors,
+  colorSchemes,
+  quoteRequests,
+  baseModels,
   insertProjectSchema, 
   insertProjectImageSchema,
   insertSegmentationMaskSchema,
-  insertColorApplicationSchema
+  insertColorApplicationSchema,
+  insertCanvasStateSchema,
+  insertRecentColorSchema,
+  insertPaletteCategorySchema,
+  insertPaletteColorSchema,
+  insertColorSchemeSchema,
+  insertBaseModelSchema,
+  importedColorSchema,
+  renderRequestSchema,
+  quotationRequestSchema,
+  insertQuoteRequestSchema,
+  updateQuoteRequestSchema,
+  QUOTE_STATUSES,
+  segmentationPointSchema,
+  boundingBoxSchema,
+  type SegmentationPoint,
+  type BoundingBox,
+  type ProjectImageWithMasks,
+  type ProjectDetails
 } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import { and, asc, eq, desc, inArray, isNull, max, sql, type SQL } from "drizzle-orm";
+import { z } from "zod";
 import multer from "multer";
 import { writeFile, mkdir } from "fs/promises";
 import { join, extname } from "path";
 import { existsSync } from "fs";
 import { randomUUID } from "crypto";
-import Replicate from "replicate";
+import { UPLOAD_DIR, isLocalImageReference, loadProviderImage } from "./images";
+import {
+  readMaskCoverage,
+  computeMaskStats,
+  encodeMaskPng,
+  storeMaskPng,
+  isStoredMask,
+  storedMaskPath,
+  maskUrlFor
+} from "./masks";
+import { segmentationProvider } from "./segmentation";
+import { seedPalette, loadPalette, diffPalette, applyPaletteImport, isKnownTexture } from "./palette";
+import {
+  detectPaletteFormat,
+  parsePaletteFile,
+  paletteToAse,
+  paletteToCsv,
+  paletteToJson
+} from "./paletteFiles";
+import { loadSchemes, createScheme, updateScheme } from "./schemes";
+import { renderDesign, type RenderLayer } from "./render";
+import { buildQuotationPdf } from "./quotation";
+import { createQuoteRequest, listQuoteRequests, loadQuoteRequest } from "./quotes";
+import { seedBaseModels, loadBaseModels } from "./pricing";
+import { toColorCategories } from "@shared/palette";
 
 const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
 
@@ -34,9 +84,73 @@ const upload = multer({
   }
 });
 
-const UPLOAD_DIR = join(process.cwd(), "uploads");
-const replicate = new Replicate({
-  auth: process.env.REPLICATE_API_TOKEN,
+const RECENT_COLORS_LIMIT = 8;
+
+// A project image (the latest unless one is given) with its visible colored
+// masks, stacked as the editor saved them. Colors saved before the stack
+// order was stored share sortOrder 0 and keep the order they were added in.
+async function loadProjectRender(projectId: string, imageId?: string) {
+  const imageFilter = imageId
+    ? and(eq(projectImages.projectId, projectId), eq(projectImages.id, imageId))
+    : eq(projectImages.projectId, projectId);
+  const [image] = await db.select()
+    .from(projectImages)
+    .where(imageFilter)
+    .orderBy(desc(projectImages.createdAt))
+    .limit(1);
+
+  if (!image) return null;
+
+  const layers: RenderLayer[] = await db.select({ mask: segmentationMasks, color: colorApplications })
+    .from(colorApplications)
+    .innerJoin(segmentationMasks, eq(colorApplications.maskId, segmentationMasks.id))
+    .where(and(
+      eq(colorApplications.projectId, projectId),
+      eq(segmentationMasks.imageId, image.id),
+      eq(colorApplications.visible, true)
+    ))
+    .orderBy(asc(colorApplications.sortOrder), asc(segmentationMasks.createdAt));
+
+  return { image, layers };
+}
+
+// Most recent first, one entry per color. Without a project id the list
+// covers every project and the project-less entries.
+async function listRecentColors(projectId?: string, limit = RECENT_COLORS_LIMIT) {
+  const rows = await db.select().from(recentColors)
+    .where(projectId ? eq(recentColors.projectId, projectId) : undefined)
+    .orderBy(desc(recentColors.usedAt))
+    .limit(limit * 10);
+
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    const key = row.colorId ?? row.hex.toUpperCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, limit);
+}
+
+// Moves the color to the front of the list by replacing its previous entry
+async function recordRecentColor(body: unknown, projectId: string | null) {
+  const validated = insertRecentColorSchema.parse({ ...(body as object), projectId });
+  const sameColor: SQL = validated.colorId
+    ? eq(recentColors.colorId, validated.colorId)
+    : and(isNull(recentColors.colorId), eq(recentColors.hex, validated.hex))!;
+
+  return db.transaction(async (tx) => {
+    await tx.delete(recentColors).where(and(
+      projectId ? eq(recentColors.projectId, projectId) : isNull(recentColors.projectId),
+      sameColor
+    ));
+    const [recent] = await tx.insert(recentColors).values(validated).returning();
+    return recent;
+  });
+}
+
+const paletteUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024 }
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -44,6 +158,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     await mkdir(UPLOAD_DIR, { recursive: true });
   }
 
+  try {
+    await seedPalette();
+  } catch (error) {
+    console.error("Failed to seed palette:", error);
+  }
+
+  try {
+    await seedBaseModels();
+  } catch (error) {
+    console.error("Failed to seed base models:", error);
+  }
+
   app.post("/api/upload", upload.single("image"), async (req, res) => {
     try {
       if (!req.file) {
@@ -93,12 +219,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const images = await db.select().from(projectImages).where(eq(projectImages.projectId, id));
       const colors = await db.select().from(colorApplications).where(eq(colorApplications.projectId, id));
+      const masks = images.length === 0 ? [] : await db.select()
+        .from(segmentationMasks)
+        .where(inArray(segmentationMasks.imageId, images.map(image => image.id)))
+        .orderBy(segmentationMasks.createdAt);
+
+      const imagesWithMasks: ProjectImageWithMasks[] = images.map(image => ({
+        ...image,
+        masks: masks
+          .filter(mask => mask.imageId === image.id)
+          .map(mask => ({
+            ...mask,
+            maskUrl: maskUrlFor(mask.id),
+            colorApplication: colors.find(color => color.maskId === mask.id) ?? null
+          }))
+      }));
 
-      res.json({
+      const response: ProjectDetails = {
         project: project[0],
-        images,
+        images: imagesWithMasks,
         colorApplications: colors
-      });
+      };
+
+      res.json(response);
     } catch (error) {
       console.error("Failed to fetch project:", error);
       res.status(500).json({ message: "Failed to fetch project" });
@@ -148,6 +291,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saves single fields, such as the base model, without resending the rest
+  app.patch("/api/projects/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validated = insertProjectSchema.partial().parse(req.body);
+
+      const [updatedProject] = await db.update(projects)
+        .set({ 
+          ...validated,
+          updatedAt: new Date()
+        })
+        .where(eq(projects.id, id))
+        .returning();
+
+      if (!updatedProject) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(updatedProject);
+    } catch (error) {
+      console.error("Failed to update project:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid project data", error });
+      }
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
   app.delete("/api/projects/:id", async (req, res) => {
     try {
       const { id } = req.params;
@@ -159,6 +330,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Composites the stored masks and colors over the photo, for systems that
+  // need rendered variants without a browser
+  app.post("/api/projects/:id/render", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const options = renderRequestSchema.parse(req.body ?? {});
+
+      const render = await loadProjectRender(id, options.imageId);
+      if (!render) {
+        return res.status(404).json({ message: "Project image not found" });
+      }
+
+      const { image, layers } = render;
+      const rendered = await renderDesign(image.originalImagePath, layers, options);
+      const extension = options.format === "jpeg" ? "jpg" : options.format;
+      res.setHeader("Content-Disposition", `inline; filename="render-${image.id}.${extension}"`);
+      res.setHeader("X-Image-Width", String(rendered.width));
+      res.setHeader("X-Image-Height", String(rendered.height));
+      res.type(rendered.contentType).send(rendered.data);
+    } catch (error) {
+      console.error("Failed to render project:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid render options", error });
+      }
+      if (error instanceof Error && error.name === 'UnsupportedImageError') {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to render project" });
+    }
+  });
+
+  app.post("/api/projects/:id/quotation", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { imageId, notes } = quotationRequestSchema.parse(req.body ?? {});
+
+      const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const render = await loadProjectRender(id, imageId);
+      if (!render) {
+        return res.status(404).json({ message: "Project image not found" });
+      }
+
+      const pdf = await buildQuotationPdf({
+        project,
+        image: render.image,
+        layers: render.layers,
+        palette: toColorCategories(await loadPalette(true)),
+        notes
+      });
+
+      const fileName = project.name.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-") || "project";
+      res.setHeader("Content-Disposition", `attachment; filename="quotation-${fileName}.pdf"`);
+      res.type("application/pdf").send(pdf);
+    } catch (error) {
+      console.error("Failed to build quotation:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid quotation data", error });
+      }
+      if (error instanceof Error && error.name === 'UnsupportedImageError') {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to build quotation" });
+    }
+  });
+
   app.post("/api/projects/:projectId/images", async (req, res) => {
     try {
       const { projectId } = req.params;
@@ -166,6 +406,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         projectId
       });
+      if (!isLocalImageReference(validated.originalImagePath)) {
+        return res.status(400).json({ message: "Images must be uploaded before they are added to a project" });
+      }
 
       const [newImage] = await db.insert(projectImages).values(validated).returning();
       res.json(newImage);
@@ -178,14 +421,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/projects/:projectId/canvas-state", async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const [state] = await db.select().from(canvasStates).where(eq(canvasStates.projectId, projectId)).limit(1);
+
+      if (!state) {
+        return res.status(404).json({ message: "Canvas state not found" });
+      }
+
+      res.json(state);
+    } catch (error) {
+      console.error("Failed to fetch canvas state:", error);
+      res.status(500).json({ message: "Failed to fetch canvas state" });
+    }
+  });
+
+  app.put("/api/projects/:projectId/canvas-state", async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const validated = insertCanvasStateSchema.parse({
+        ...req.body,
+        projectId
+      });
+
+      const [state] = await db.insert(canvasStates)
+        .values(validated)
+        .onConflictDoUpdate({
+          target: canvasStates.projectId,
+          set: {
+            canvasJson: validated.canvasJson,
+            zoom: validated.zoom,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+
+      await db.update(projects)
+        .set({ updatedAt: new Date() })
+        .where(eq(projects.id, projectId));
+
+      res.json(state);
+    } catch (error) {
+      console.error("Failed to save canvas state:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid canvas state", error });
+      }
+      res.status(500).json({ message: "Failed to save canvas state" });
+    }
+  });
+
   app.post("/api/segment", async (req, res) => {
     try {
-      const { imageUrl, clickX, clickY, imageId } = req.body;
+      const { imageUrl, clickX, clickY, imageId, replaceMaskId } = req.body;
 
-      if (!imageUrl || clickX === undefined || clickY === undefined) {
-        return res.status(400).json({ message: "Missing required parameters: imageUrl, clickX, clickY" });
+      // A single click is shorthand for one positive point
+      let points: SegmentationPoint[] = [];
+      if (req.body.points !== undefined) {
+        const parsed = z.array(segmentationPointSchema).safeParse(req.body.points);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid points", error: parsed.error });
+        }
+        points = parsed.data;
+      } else if (clickX !== undefined && clickY !== undefined) {
+        points = [{ x: clickX, y: clickY, label: 1 }];
+      }
+
+      let box: BoundingBox | undefined;
+      if (req.body.box !== undefined) {
+        const parsed = boundingBoxSchema.safeParse(req.body.box);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Invalid box", error: parsed.error });
+        }
+        box = parsed.data;
       }
 
+      const positivePoint = points.find(p => p.label === 1);
+      if (!imageUrl || (!positivePoint && !box)) {
+        return res.status(400).json({ message: "Missing required parameters: imageUrl and a box or at least one positive point" });
+      }
+
+      // The server reads the photo itself, so only uploads and bundled assets are accepted
+      if (typeof imageUrl !== "string" || !isLocalImageReference(imageUrl)) {
+        return res.status(400).json({ message: "Unsupported imageUrl: upload the image first" });
+      }
+
+      const anchor = positivePoint ?? {
+        x: Math.round(box!.x + box!.width / 2),
+        y: Math.round(box!.y + box!.height / 2)
+      };
+
       if (imageId) {
         const existingImage = await db.select().from(projectImages).where(eq(projectImages.id, imageId)).limit(1);
         if (existingImage.length === 0) {
@@ -193,55 +518,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      console.log(`Segmenting image at (${clickX}, ${clickY})`);
+      console.log(`Segmenting image with ${points.length} point(s)${box ? ' and a box' : ''} using ${segmentationProvider.name} provider`);
 
-      const output = await replicate.run(
-        "meta/sam-2",
-        {
-          input: {
-            image: imageUrl,
-            point_coords: `[[${clickX},${clickY}]]`,
-            point_labels: "[1]"
-          }
-        }
-      ) as any;
-
-      let maskData: string;
-      if (typeof output === 'string') {
-        maskData = output;
-      } else if (output && typeof output.url === 'function') {
-        maskData = await output.url();
-      } else if (output && output.url) {
-        maskData = output.url;
-      } else {
-        maskData = String(output);
-      }
+      const segmentation = await segmentationProvider.segment({
+        imageUrl: new URL(imageUrl, `${req.protocol}://${req.get('host')}`).toString(),
+        points,
+        box
+      });
 
+      // Provider URLs expire, so the mask is normalized and kept locally
+      const coverage = await readMaskCoverage(await loadProviderImage(segmentation.maskUrl));
+      const { boundingBox, area, centroid } = computeMaskStats(coverage);
+      const png = await encodeMaskPng(coverage);
+
+      let maskId: string | undefined;
       const mask = {
-        maskUrl: maskData,
-        clickX,
-        clickY,
-        boundingBox: { x: 0, y: 0, width: 0, height: 0 }
+        maskUrl: `data:image/png;base64,${png.toString("base64")}`,
+        clickX: anchor.x,
+        clickY: anchor.y,
+        points,
+        box,
+        boundingBox,
+        area,
+        centroid
       };
 
       if (imageId) {
         try {
           const validated = insertSegmentationMaskSchema.parse({
             imageId,
-            clickX,
-            clickY,
-            maskData,
-            boundingBox: mask.boundingBox
+            clickX: anchor.x,
+            clickY: anchor.y,
+            maskData: await storeMaskPng(png),
+            boundingBox,
+            area,
+            centroid,
+            points,
+            box
           });
 
           const [savedMask] = await db.insert(segmentationMasks).values(validated).returning();
-          mask.maskUrl = savedMask.maskData;
+          maskId = savedMask.id;
+          mask.maskUrl = maskUrlFor(savedMask.id);
+
+          // Refining swaps in a new mask (mask URLs are immutable) and moves
+          // the previous mask's colors over to it. The previous mask is kept
+          // so an undo in the editor can point back at it.
+          if (replaceMaskId) {
+            await db.update(colorApplications)
+              .set({ maskId: savedMask.id })
+              .where(eq(colorApplications.maskId, replaceMaskId));
+          }
         } catch (dbError) {
           console.error("Failed to save mask to database:", dbError);
         }
       }
 
-      res.json(mask);
+      res.json({ id: maskId, ...mask });
     } catch (error) {
       console.error("Segmentation error:", error);
       res.status(500).json({ 
@@ -251,9 +584,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/masks/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const [mask] = await db.select().from(segmentationMasks).where(eq(segmentationMasks.id, id)).limit(1);
+
+      if (!mask) {
+        return res.status(404).json({ message: "Mask not found" });
+      }
+
+      let maskData = mask.maskData;
+
+      // Masks saved before local storage hold a provider URL or data URL;
+      // normalize them on first access so later reads come from disk.
+      if (!isStoredMask(maskData)) {
+        const coverage = await readMaskCoverage(await loadProviderImage(maskData));
+        maskData = await storeMaskPng(await encodeMaskPng(coverage));
+        await db.update(segmentationMasks)
+          .set({ maskData })
+          .where(eq(segmentationMasks.id, id));
+      }
+
+      res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+      res.type('png');
+      res.sendFile(storedMaskPath(maskData));
+    } catch (error) {
+      console.error("Failed to fetch mask:", error);
+      res.status(500).json({ message: "Failed to fetch mask" });
+    }
+  });
+
   app.post("/api/colors", async (req, res) => {
     try {
       const validated = insertColorApplicationSchema.parse(req.body);
+      if (validated.textureUrl && !(await isKnownTexture(validated.textureUrl))) {
+        return res.status(400).json({ message: "Unknown texture" });
+      }
+
       const [newColor] = await db.insert(colorApplications).values(validated).returning();
       res.json(newColor);
     } catch (error) {
@@ -265,6 +632,544 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/colors/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validated = insertColorApplicationSchema.partial().parse(req.body);
+      if (validated.textureUrl && !(await isKnownTexture(validated.textureUrl))) {
+        return res.status(400).json({ message: "Unknown texture" });
+      }
+
+      const [updatedColor] = await db.update(colorApplications)
+        .set(validated)
+        .where(eq(colorApplications.id, id))
+        .returning();
+
+      if (!updatedColor) {
+        return res.status(404).json({ message: "Color application not found" });
+      }
+
+      res.json(updatedColor);
+    } catch (error) {
+      console.error("Failed to update color:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid color data", error });
+      }
+      res.status(500).json({ message: "Failed to update color" });
+    }
+  });
+
+  app.delete("/api/colors/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      await db.delete(colorApplications).where(eq(colorApplications.id, id));
+      res.json({ message: "Color application deleted successfully" });
+    } catch (error) {
+      console.error("Failed to delete color:", error);
+      res.status(500).json({ message: "Failed to delete color" });
+    }
+  });
+
+  app.get("/api/recent-colors", async (req, res) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || RECENT_COLORS_LIMIT, 50);
+      res.json(await listRecentColors(undefined, limit));
+    } catch (error) {
+      console.error("Failed to fetch recent colors:", error);
+      res.status(500).json({ message: "Failed to fetch recent colors" });
+    }
+  });
+
+  app.post("/api/recent-colors", async (req, res) => {
+    try {
+      res.json(await recordRecentColor(req.body, null));
+    } catch (error) {
+      console.error("Failed to save recent color:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid color data", error });
+      }
+      res.status(500).json({ message: "Failed to save recent color" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/recent-colors", async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const limit = Math.min(Number(req.query.limit) || RECENT_COLORS_LIMIT, 50);
+      res.json(await listRecentColors(projectId, limit));
+    } catch (error) {
+      console.error("Failed to fetch recent colors:", error);
+      res.status(500).json({ message: "Failed to fetch recent colors" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/recent-colors", async (req, res) => {
+    try {
+      const { projectId } = req.params;
+      const [project] = await db.select({ id: projects.id }).from(projects).where(eq(projects.id, projectId)).limit(1);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(await recordRecentColor(req.body, projectId));
+    } catch (error) {
+      console.error("Failed to save recent color:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid color data", error });
+      }
+      res.status(500).json({ message: "Failed to save recent color" });
+    }
+  });
+
+  app.get("/api/favorites", async (_req, res) => {
+    try {
+      const favorites = await db.select().from(favoriteColors).orderBy(desc(favoriteColors.createdAt));
+      res.json(favorites);
+    } catch (error) {
+      console.error("Failed to fetch favorites:", error);
+      res.status(500).json({ message: "Failed to fetch favorites" });
+    }
+  });
+
+  // Starring is idempotent so a double click never fails
+  app.put("/api/favorites/:colorId", async (req, res) => {
+    try {
+      const { colorId } = req.params;
+      await db.insert(favoriteColors).values({ colorId }).onConflictDoNothing({ target: favoriteColors.colorId });
+      const [favorite] = await db.select().from(favoriteColors).where(eq(favoriteColors.colorId, colorId));
+      res.json(favorite);
+    } catch (error) {
+      console.error("Failed to save favorite:", error);
+      res.status(500).json({ message: "Failed to save favorite" });
+    }
+  });
+
+  app.delete("/api/favorites/:colorId", async (req, res) => {
+    try {
+      const { colorId } = req.params;
+      await db.delete(favoriteColors).where(eq(favoriteColors.colorId, colorId));
+      res.json({ message: "Favorite removed successfully" });
+    } catch (error) {
+      console.error("Failed to remove favorite:", error);
+      res.status(500).json({ message: "Failed to remove favorite" });
+    }
+  });
+
+  app.get("/api/schemes", async (_req, res) => {
+    try {
+      res.json(await loadSchemes());
+    } catch (error) {
+      console.error("Failed to fetch color schemes:", error);
+      res.status(500).json({ message: "Failed to fetch color schemes" });
+    }
+  });
+
+  app.post("/api/schemes", async (req, res) => {
+    try {
+      const validated = insertColorSchemeSchema.parse(req.body);
+      res.json(await createScheme(validated));
+    } catch (error) {
+      console.error("Failed to create color scheme:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid color scheme data", error });
+      }
+      res.status(500).json({ message: "Failed to create color scheme" });
+    }
+  });
+
+  app.patch("/api/schemes/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validated = insertColorSchemeSchema.partial().parse(req.body);
+
+      const scheme = await updateScheme(id, validated);
+      if (!scheme) {
+        return res.status(404).json({ message: "Color scheme not found" });
+      }
+
+      res.json(scheme);
+    } catch (error) {
+      console.error("Failed to update color scheme:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid color scheme data", error });
+      }
+      res.status(500).json({ message: "Failed to update color scheme" });
+    }
+  });
+
+  app.delete("/api/schemes/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      await db.delete(colorSchemes).where(eq(colorSchemes.id, id));
+      res.json({ message: "Color scheme deleted successfully" });
+    } catch (error) {
+      console.error("Failed to delete color scheme:", error);
+      res.status(500).json({ message: "Failed to delete color scheme" });
+    }
+  });
+
+  app.get("/api/quotes", async (req, res) => {
+    try {
+      const status = req.query.status ? z.enum(QUOTE_STATUSES).parse(req.query.status) : undefined;
+      res.json(await listQuoteRequests(status));
+    } catch (error) {
+      console.error("Failed to fetch quote requests:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid quote status", error });
+      }
+      res.status(500).json({ message: "Failed to fetch quote requests" });
+    }
+  });
+
+  app.get("/api/quotes/:id", async (req, res) => {
+    try {
+      const quote = await loadQuoteRequest(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote request not found" });
+      }
+      res.json(quote);
+    } catch (error) {
+      console.error("Failed to fetch quote request:", error);
+      res.status(500).json({ message: "Failed to fetch quote request" });
+    }
+  });
+
+  app.post("/api/quotes", async (req, res) => {
+    try {
+      const validated = insertQuoteRequestSchema.parse(req.body);
+
+      const render = await loadProjectRender(validated.projectId, validated.imageId ?? undefined);
+      if (!render) {
+        return res.status(404).json({ message: "Project image not found" });
+      }
+
+      const palette = toColorCategories(await loadPalette(true));
+      res.json(await createQuoteRequest(validated, render.image, render.layers, palette));
+    } catch (error) {
+      console.error("Failed to submit quote request:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid quote request", error });
+      }
+      if (error instanceof Error && error.name === 'UnsupportedImageError') {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to submit quote request" });
+    }
+  });
+
+  app.patch("/api/quotes/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validated = updateQuoteRequestSchema.parse(req.body);
+
+      const [updated] = await db.update(quoteRequests)
+        .set({ ...validated, updatedAt: new Date() })
+        .where(eq(quoteRequests.id, id))
+        .returning();
+
+      if (!updated) {
+        return res.status(404).json({ message: "Quote request not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Failed to update quote request:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid quote request data", error });
+      }
+      res.status(500).json({ message: "Failed to update quote request" });
+    }
+  });
+
+  app.get("/api/base-models", async (_req, res) => {
+    try {
+      res.json(await loadBaseModels());
+    } catch (error) {
+      console.error("Failed to fetch base models:", error);
+      res.status(500).json({ message: "Failed to fetch base models" });
+    }
+  });
+
+  app.post("/api/base-models", async (req, res) => {
+    try {
+      const validated = insertBaseModelSchema.parse(req.body);
+      const [model] = await db.insert(baseModels).values(validated).returning();
+      res.json(model);
+    } catch (error) {
+      console.error("Failed to create base model:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid base model data", error });
+      }
+      res.status(500).json({ message: "Failed to create base model" });
+    }
+  });
+
+  app.patch("/api/base-models/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validated = insertBaseModelSchema.partial().parse(req.body);
+
+      const [model] = await db.update(baseModels)
+        .set({ ...validated, updatedAt: sql`now()` })
+        .where(eq(baseModels.id, id))
+        .returning();
+
+      if (!model) {
+        return res.status(404).json({ message: "Base model not found" });
+      }
+
+      res.json(model);
+    } catch (error) {
+      console.error("Failed to update base model:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid base model data", error });
+      }
+      res.status(500).json({ message: "Failed to update base model" });
+    }
+  });
+
+  // Projects priced on the model keep their design and fall back to finishes only
+  app.delete("/api/base-models/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      await db.delete(baseModels).where(eq(baseModels.id, id));
+      res.json({ message: "Base model deleted successfully" });
+    } catch (error) {
+      console.error("Failed to delete base model:", error);
+      res.status(500).json({ message: "Failed to delete base model" });
+    }
+  });
+
+  app.get("/api/palette", async (req, res) => {
+    try {
+      const palette = await loadPalette(req.query.includeRetired === "true");
+      res.json(palette);
+    } catch (error) {
+      console.error("Failed to fetch palette:", error);
+      res.status(500).json({ message: "Failed to fetch palette" });
+    }
+  });
+
+  app.post("/api/palette/categories", async (req, res) => {
+    try {
+      const validated = insertPaletteCategorySchema.parse(req.body);
+
+      // New categories go to the end unless a position is given
+      if (req.body.sortOrder === undefined) {
+        const [{ last }] = await db.select({ last: max(paletteCategories.sortOrder) }).from(paletteCategories);
+        validated.sortOrder = (last ?? -1) + 1;
+      }
+
+      const [category] = await db.insert(paletteCategories).values(validated).returning();
+      res.json(category);
+    } catch (error) {
+      console.error("Failed to create palette category:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid category data", error });
+      }
+      res.status(500).json({ message: "Failed to create palette category" });
+    }
+  });
+
+  // Body: { ids } - every category id in the new display order
+  app.put("/api/palette/categories/order", async (req, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.string()).min(1) }).parse(req.body);
+
+      await db.transaction(async (tx) => {
+        for (let index = 0; index < ids.length; index++) {
+          await tx.update(paletteCategories)
+            .set({ sortOrder: index, updatedAt: sql`now()` })
+            .where(eq(paletteCategories.id, ids[index]));
+        }
+      });
+
+      res.json(await loadPalette(true));
+    } catch (error) {
+      console.error("Failed to reorder palette categories:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid category order", error });
+      }
+      res.status(500).json({ message: "Failed to reorder palette categories" });
+    }
+  });
+
+  app.patch("/api/palette/categories/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validated = insertPaletteCategorySchema.omit({ id: true }).partial().parse(req.body);
+
+      const [category] = await db.update(paletteCategories)
+        .set({ ...validated, updatedAt: sql`now()` })
+        .where(eq(paletteCategories.id, id))
+        .returning();
+
+      if (!category) {
+        return res.status(404).json({ message: "Palette category not found" });
+      }
+
+      res.json(category);
+    } catch (error) {
+      console.error("Failed to update palette category:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid category data", error });
+      }
+      res.status(500).json({ message: "Failed to update palette category" });
+    }
+  });
+
+  app.delete("/api/palette/categories/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      // Finishes should be retired or moved first rather than vanish with their category
+      const [color] = await db.select({ id: paletteColors.id }).from(paletteColors)
+        .where(eq(paletteColors.categoryId, id))
+        .limit(1);
+      if (color) {
+        return res.status(409).json({ message: "Category still has colors" });
+      }
+
+      await db.delete(paletteCategories).where(eq(paletteCategories.id, id));
+      res.json({ message: "Palette category deleted successfully" });
+    } catch (error) {
+      console.error("Failed to delete palette category:", error);
+      res.status(500).json({ message: "Failed to delete palette category" });
+    }
+  });
+
+  app.post("/api/palette/colors", async (req, res) => {
+    try {
+      const validated = insertPaletteColorSchema.parse(req.body);
+
+      if (req.body.sortOrder === undefined) {
+        const [{ last }] = await db.select({ last: max(paletteColors.sortOrder) }).from(paletteColors)
+          .where(eq(paletteColors.categoryId, validated.categoryId));
+        validated.sortOrder = (last ?? -1) + 1;
+      }
+
+      const [color] = await db.insert(paletteColors)
+        .values({ ...validated, hexColor: validated.hexColor.toUpperCase() })
+        .returning();
+      res.json(color);
+    } catch (error) {
+      console.error("Failed to create palette color:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid color data", error });
+      }
+      res.status(500).json({ message: "Failed to create palette color" });
+    }
+  });
+
+  app.patch("/api/palette/colors/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validated = insertPaletteColorSchema.omit({ id: true }).partial().parse(req.body);
+
+      const [color] = await db.update(paletteColors)
+        .set({
+          ...validated,
+          ...(validated.hexColor && { hexColor: validated.hexColor.toUpperCase() }),
+          updatedAt: sql`now()`
+        })
+        .where(eq(paletteColors.id, id))
+        .returning();
+
+      if (!color) {
+        return res.status(404).json({ message: "Palette color not found" });
+      }
+
+      res.json(color);
+    } catch (error) {
+      console.error("Failed to update palette color:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid color data", error });
+      }
+      res.status(500).json({ message: "Failed to update palette color" });
+    }
+  });
+
+  app.delete("/api/palette/colors/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      await db.delete(paletteColors).where(eq(paletteColors.id, id));
+      res.json({ message: "Palette color deleted successfully" });
+    } catch (error) {
+      console.error("Failed to delete palette color:", error);
+      res.status(500).json({ message: "Failed to delete palette color" });
+    }
+  });
+
+  // Parses an uploaded CSV, ASE or JSON palette and reports what importing
+  // it would change. Nothing is written until POST /api/palette/import.
+  app.post("/api/palette/import/preview", paletteUpload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const format = detectPaletteFormat(req.file.originalname, req.body.format);
+      if (!format) {
+        return res.status(400).json({ message: "Unsupported palette format. Use CSV, ASE or JSON." });
+      }
+
+      let parsed;
+      try {
+        parsed = parsePaletteFile(req.file.buffer, format);
+      } catch (parseError) {
+        return res.status(400).json({
+          message: "Could not read palette file",
+          error: parseError instanceof Error ? parseError.message : String(parseError)
+        });
+      }
+
+      const palette = await loadPalette(true);
+      res.json(diffPalette(palette, parsed.colors, parsed.errors));
+    } catch (error) {
+      console.error("Failed to preview palette import:", error);
+      res.status(500).json({ message: "Failed to preview palette import" });
+    }
+  });
+
+  // Body: { colors } - the previewed rows the admin chose to keep
+  app.post("/api/palette/import", async (req, res) => {
+    try {
+      const { colors } = z.object({ colors: z.array(importedColorSchema).min(1) }).parse(req.body);
+      const result = await applyPaletteImport(colors);
+      res.json(result);
+    } catch (error) {
+      console.error("Failed to import palette:", error);
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid palette data", error });
+      }
+      res.status(500).json({ message: "Failed to import palette" });
+    }
+  });
+
+  app.get("/api/palette/export", async (req, res) => {
+    try {
+      const format = detectPaletteFormat("", String(req.query.format ?? "json"));
+      if (!format) {
+        return res.status(400).json({ message: "Unsupported palette format. Use CSV, ASE or JSON." });
+      }
+
+      const categories = toColorCategories(await loadPalette(req.query.includeRetired === "true"));
+      const filename = `palette.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+      if (format === "csv") {
+        res.type("text/csv").send(paletteToCsv(categories));
+      } else if (format === "ase") {
+        res.type("application/octet-stream").send(paletteToAse(categories));
+      } else {
+        res.type("application/json").send(paletteToJson(categories));
+      }
+    } catch (error) {
+      console.error("Failed to export palette:", error);
+      res.status(500).json({ message: "Failed to export palette" });
+    }
+  });
+
   app.use('/uploads', (req, res, next) => {
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Cache-Control', 'no-cache');
@@ -0,0 +1,69 @@
+import { asc, desc, eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import {
+  colorSchemes,
+  colorSchemeEntries,
+  type ColorSchemeWithEntries,
+  type InsertColorScheme
+} from "@shared/schema";
+
+// Newest schemes first, each with its entries in the order they were saved
+export async function loadSchemes(ids?: string[]): Promise<ColorSchemeWithEntries[]> {
+  const schemes = await db.select().from(colorSchemes)
+    .where(ids ? inArray(colorSchemes.id, ids) : undefined)
+    .orderBy(desc(colorSchemes.updatedAt));
+  if (schemes.length === 0) return [];
+
+  const entries = await db.select().from(colorSchemeEntries)
+    .where(inArray(colorSchemeEntries.schemeId, schemes.map(scheme => scheme.id)))
+    .orderBy(asc(colorSchemeEntries.sortOrder));
+
+  return schemes.map(scheme => ({
+    ...scheme,
+    entries: entries.filter(entry => entry.schemeId === scheme.id)
+  }));
+}
+
+export async function createScheme({ entries, ...scheme }: InsertColorScheme): Promise<ColorSchemeWithEntries> {
+  return db.transaction(async (tx) => {
+    const [created] = await tx.insert(colorSchemes).values(scheme).returning();
+    const saved = await tx.insert(colorSchemeEntries).values(entries.map((entry, index) => ({
+      ...entry,
+      schemeId: created.id,
+      fillHex: entry.fillHex.toUpperCase(),
+      sortOrder: index
+    }))).returning();
+
+    return { ...created, entries: saved };
+  });
+}
+
+// Replaces the scheme's entries when they are given; name and description
+// alone are updated in place
+export async function updateScheme(
+  id: string,
+  { entries, ...changes }: Partial<InsertColorScheme>
+): Promise<ColorSchemeWithEntries | null> {
+  const updated = await db.transaction(async (tx) => {
+    const [scheme] = await tx.update(colorSchemes)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(colorSchemes.id, id))
+      .returning();
+    if (!scheme) return null;
+
+    if (entries) {
+      await tx.delete(colorSchemeEntries).where(eq(colorSchemeEntries.schemeId, id));
+      await tx.insert(colorSchemeEntries).values(entries.map((entry, index) => ({
+        ...entry,
+        schemeId: id,
+        fillHex: entry.fillHex.toUpperCase(),
+        sortOrder: index
+      })));
+    }
+    return scheme;
+  });
+
+  if (!updated) return null;
+  const [scheme] = await loadSchemes([id]);
+  return scheme;
+}
@@ -0,0 +1,284 @@
+import Replicate from "replicate";
+import sharp from "sharp";
+import type { BoundingBox, SegmentationPoint } from "@shared/schema";
+import { loadImageBuffer } from "./images";
+
+export interface SegmentationRequest {
+  imageUrl: string;
+  points: SegmentationPoint[];
+  box?: BoundingBox;
+}
+
+export interface SegmentationResult {
+  maskUrl: string; // Remote URL or base64 data URL of the mask PNG
+}
+
+export interface SegmentationProvider {
+  readonly name: string;
+  segment(request: SegmentationRequest): Promise<SegmentationResult>;
+}
+
+// Meta SAM 2 hosted on Replicate
+export class ReplicateSegmentationProvider implements SegmentationProvider {
+  readonly name = "replicate";
+  private client: Replicate;
+
+  constructor(apiToken?: string) {
+    this.client = new Replicate({ auth: apiToken });
+  }
+
+  async segment({ imageUrl, points, box }: SegmentationRequest): Promise<SegmentationResult> {
+    const input: Record<string, string> = { image: imageUrl };
+    if (points.length > 0) {
+      input.point_coords = JSON.stringify(points.map(p => [p.x, p.y]));
+      input.point_labels = JSON.stringify(points.map(p => p.label));
+    }
+    if (box) {
+      input.box = JSON.stringify([box.x, box.y, box.x + box.width, box.y + box.height]);
+    }
+
+    const output = await this.client.run("meta/sam-2", { input }) as any;
+
+    let maskUrl: string;
+    if (typeof output === 'string') {
+      maskUrl = output;
+    } else if (output && typeof output.url === 'function') {
+      maskUrl = String(await output.url());
+    } else if (output && output.url) {
+      maskUrl = output.url;
+    } else {
+      maskUrl = String(output);
+    }
+
+    return { maskUrl };
+  }
+}
+
+interface LocalSegmentationOptions {
+  tolerance: number; // Max RGB distance from the region's mean color
+  edgeThreshold: number; // Max RGB distance between neighbouring pixels
+  maxDimension: number; // Images are downscaled to this size before region growing
+}
+
+// Offline fallback: grows a region from each point over pixels that are close
+// to the region's running mean color and not separated by a strong edge.
+// Regions grown from positive points are merged, negative ones are cut out.
+// A box prompt grows regions from a grid of seeds inside the box and keeps the
+// largest one that isn't the background surrounding the object.
+export class LocalSegmentationProvider implements SegmentationProvider {
+  readonly name = "local";
+
+  constructor(private options: LocalSegmentationOptions) {}
+
+  async segment({ imageUrl, points, box }: SegmentationRequest): Promise<SegmentationResult> {
+    const input = await loadImageBuffer(imageUrl);
+    const metadata = await sharp(input).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error("Unable to read image dimensions");
+    }
+
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const originalWidth = rotated ? metadata.height : metadata.width;
+    const originalHeight = rotated ? metadata.width : metadata.height;
+
+    const { data, info } = await sharp(input)
+      .rotate()
+      .resize({
+        width: this.options.maxDimension,
+        height: this.options.maxDimension,
+        fit: "inside",
+        withoutEnlargement: true
+      })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const { width, height, channels } = info;
+    const scaleX = width / originalWidth;
+    const scaleY = height / originalHeight;
+    const toSeed = (x: number, y: number) => ({
+      x: Math.min(width - 1, Math.max(0, Math.round(x * scaleX))),
+      y: Math.min(height - 1, Math.max(0, Math.round(y * scaleY)))
+    });
+
+    const mask = box
+      ? this.segmentBox(data, width, height, channels, {
+          x: Math.floor(box.x * scaleX),
+          y: Math.floor(box.y * scaleY),
+          width: Math.max(1, Math.round(box.width * scaleX)),
+          height: Math.max(1, Math.round(box.height * scaleY))
+        })
+      : Buffer.alloc(width * height);
+
+    for (const label of [1, 0]) {
+      for (const point of points.filter(p => p.label === label)) {
+        const seed = toSeed(point.x, point.y);
+        const region = this.growRegion(data, width, height, channels, seed.x, seed.y);
+        for (let i = 0; i < region.length; i++) {
+          if (region[i]) mask[i] = label ? 255 : 0;
+        }
+      }
+    }
+
+    // White on transparent, matching how the canvas composites masks by alpha
+    const rgba = Buffer.alloc(width * height * 4, 255);
+    for (let i = 0; i < mask.length; i++) {
+      rgba[i * 4 + 3] = mask[i];
+    }
+
+    const png = await sharp(rgba, { raw: { width, height, channels: 4 } })
+      .resize(originalWidth, originalHeight, { kernel: "nearest" })
+      .png()
+      .toBuffer();
+
+    return { maskUrl: `data:image/png;base64,${png.toString("base64")}` };
+  }
+
+  private segmentBox(
+    pixels: Buffer,
+    width: number,
+    height: number,
+    channels: number,
+    box: BoundingBox
+  ): Buffer {
+    const bounds = {
+      x: Math.min(box.x, width - 1),
+      y: Math.min(box.y, height - 1),
+      width: Math.min(box.width, width - Math.min(box.x, width - 1)),
+      height: Math.min(box.height, height - Math.min(box.y, height - 1))
+    };
+
+    let best: { region: Buffer; area: number; background: boolean } | undefined;
+    const covered = Buffer.alloc(width * height);
+
+    for (const fy of [0.5, 0.25, 0.75]) {
+      for (const fx of [0.5, 0.25, 0.75]) {
+        const seedX = bounds.x + Math.floor(bounds.width * fx);
+        const seedY = bounds.y + Math.floor(bounds.height * fy);
+        if (covered[seedY * width + seedX]) continue;
+
+        const region = this.growRegion(pixels, width, height, channels, seedX, seedY, bounds);
+        let area = 0;
+        for (let i = 0; i < region.length; i++) {
+          if (region[i]) {
+            area++;
+            covered[i] = 255;
+          }
+        }
+
+        // A region reaching three or more sides of the box is most likely the
+        // floor or wall around the object rather than the object itself
+        const background = this.countTouchedSides(region, width, bounds) >= 3;
+        if (
+          !best ||
+          (best.background && !background) ||
+          (best.background === background && area > best.area)
+        ) {
+          best = { region, area, background };
+        }
+      }
+    }
+
+    return best ? best.region : Buffer.alloc(width * height);
+  }
+
+  private countTouchedSides(region: Buffer, width: number, bounds: BoundingBox): number {
+    const right = bounds.x + bounds.width - 1;
+    const bottom = bounds.y + bounds.height - 1;
+    let top = false, bottomSide = false, left = false, rightSide = false;
+
+    for (let x = bounds.x; x <= right; x++) {
+      if (region[bounds.y * width + x]) top = true;
+      if (region[bottom * width + x]) bottomSide = true;
+    }
+    for (let y = bounds.y; y <= bottom; y++) {
+      if (region[y * width + bounds.x]) left = true;
+      if (region[y * width + right]) rightSide = true;
+    }
+
+    return [top, bottomSide, left, rightSide].filter(Boolean).length;
+  }
+
+  private growRegion(
+    pixels: Buffer,
+    width: number,
+    height: number,
+    channels: number,
+    seedX: number,
+    seedY: number,
+    bounds: BoundingBox = { x: 0, y: 0, width, height }
+  ): Buffer {
+    const { tolerance, edgeThreshold } = this.options;
+    const minX = bounds.x, maxX = bounds.x + bounds.width - 1;
+    const minY = bounds.y, maxY = bounds.y + bounds.height - 1;
+    const mask = Buffer.alloc(width * height);
+    const queue = new Int32Array(width * height);
+    const seed = seedY * width + seedX;
+
+    let sumR = 0, sumG = 0, sumB = 0, count = 0;
+    let head = 0, tail = 0;
+
+    const distance = (offset: number, r: number, g: number, b: number) => {
+      const dr = pixels[offset] - r;
+      const dg = pixels[offset + 1] - g;
+      const db = pixels[offset + 2] - b;
+      return Math.sqrt(dr * dr + dg * dg + db * db);
+    };
+
+    mask[seed] = 255;
+    queue[tail++] = seed;
+
+    while (head < tail) {
+      const index = queue[head++];
+      const offset = index * channels;
+      sumR += pixels[offset];
+      sumG += pixels[offset + 1];
+      sumB += pixels[offset + 2];
+      count++;
+
+      const meanR = sumR / count;
+      const meanG = sumG / count;
+      const meanB = sumB / count;
+      const x = index % width;
+      const y = (index - x) / width;
+
+      const neighbours = [
+        x > minX ? index - 1 : -1,
+        x < maxX ? index + 1 : -1,
+        y > minY ? index - width : -1,
+        y < maxY ? index + width : -1
+      ];
+
+      for (const next of neighbours) {
+        if (next < 0 || mask[next]) continue;
+        const nextOffset = next * channels;
+        if (distance(nextOffset, pixels[offset], pixels[offset + 1], pixels[offset + 2]) > edgeThreshold) continue;
+        if (distance(nextOffset, meanR, meanG, meanB) > tolerance) continue;
+        mask[next] = 255;
+        queue[tail++] = next;
+      }
+    }
+
+    return mask;
+  }
+}
+
+export function createSegmentationProvider(): SegmentationProvider {
+  const configured = process.env.SEGMENTATION_PROVIDER?.toLowerCase();
+  const providerName = configured || (process.env.REPLICATE_API_TOKEN ? "replicate" : "local");
+
+  switch (providerName) {
+    case "replicate":
+      return new ReplicateSegmentationProvider(process.env.REPLICATE_API_TOKEN);
+    case "local":
+      return new LocalSegmentationProvider({
+        tolerance: Number(process.env.LOCAL_SEGMENTATION_TOLERANCE) || 48,
+        edgeThreshold: Number(process.env.LOCAL_SEGMENTATION_EDGE_THRESHOLD) || 24,
+        maxDimension: Number(process.env.LOCAL_SEGMENTATION_MAX_DIMENSION) || 1024
+      });
+    default:
+      throw new Error(`Unknown SEGMENTATION_PROVIDER "${providerName}". Expected "replicate" or "local".`);
+  }
+}
+
+export const segmentationProvider = createSegmentationProvider();
@@ -0,0 +1,151 @@
+// Color space conversions shared by the editor and server-side rendering.
+// LAB values use the D65 white point: L in 0-100, a/b roughly -128 to 127.
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface LAB {
+  l: number;
+  a: number;
+  b: number;
+}
+
+const WHITE_X = 0.95047;
+const WHITE_Y = 1.0;
+const WHITE_Z = 1.08883;
+
+// sRGB channel (0-255) to linear light, precomputed since it runs per pixel
+const SRGB_TO_LINEAR = new Float64Array(256).map((_, value) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+function linearToSrgb(c: number): number {
+  const v = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, v)) * 255);
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+  const cubed = t * t * t;
+  return cubed > 216 / 24389 ? cubed : (116 * t - 16) / (24389 / 27);
+}
+
+export function hexToRgb(hex: string): RGB {
+  let value = hex.trim().replace(/^#/, "");
+  if (value.length === 3) {
+    value = value.split("").map(c => c + c).join("");
+  }
+  const n = parseInt(value.slice(0, 6), 16);
+  if (Number.isNaN(n)) {
+    throw new Error(`Invalid hex color: ${hex}`);
+  }
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+}
+
+export function rgbToHex({ r, g, b }: RGB): string {
+  return "#" + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, "0")).join("").toUpperCase();
+}
+
+// Only the lightness channel, for when chroma is not needed
+export function rgbToLightness(r: number, g: number, b: number): number {
+  const y = 0.2126729 * SRGB_TO_LINEAR[r] + 0.7151522 * SRGB_TO_LINEAR[g] + 0.072175 * SRGB_TO_LINEAR[b];
+  return 116 * labF(y / WHITE_Y) - 16;
+}
+
+export function rgbToLab({ r, g, b }: RGB): LAB {
+  const lr = SRGB_TO_LINEAR[Math.round(r)];
+  const lg = SRGB_TO_LINEAR[Math.round(g)];
+  const lb = SRGB_TO_LINEAR[Math.round(b)];
+
+  const x = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE_X);
+  const y = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE_Y);
+  const z = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE_Z);
+
+  return { l: 116 * y - 16, a: 500 * (x - y), b: 200 * (y - z) };
+}
+
+// Out-of-gamut results are clipped per channel
+export function labToRgb({ l, a, b }: LAB): RGB {
+  const fy = (l + 16) / 116;
+  const x = labFInverse(fy + a / 500) * WHITE_X;
+  const y = labFInverse(fy) * WHITE_Y;
+  const z = labFInverse(fy - b / 200) * WHITE_Z;
+
+  return {
+    r: linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    g: linearToSrgb(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    b: linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z)
+  };
+}
+
+export function hexToLab(hex: string): LAB {
+  return rgbToLab(hexToRgb(hex));
+}
+
+const DEGREES = 180 / Math.PI;
+
+function hueAngle(b: number, a: number): number {
+  if (a === 0 && b === 0) return 0;
+  const h = Math.atan2(b, a) * DEGREES;
+  return h >= 0 ? h : h + 360;
+}
+
+// CIEDE2000 color difference (kL = kC = kH = 1). Around 1 is barely
+// noticeable side by side; above 5 reads as a different color.
+export function deltaE2000(first: LAB, second: LAB): number {
+  const c1 = Math.hypot(first.a, first.b);
+  const c2 = Math.hypot(second.a, second.b);
+  const meanC7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + Math.pow(25, 7))));
+
+  const a1 = first.a * (1 + g);
+  const a2 = second.a * (1 + g);
+  const c1p = Math.hypot(a1, first.b);
+  const c2p = Math.hypot(a2, second.b);
+  const h1p = hueAngle(first.b, a1);
+  const h2p = hueAngle(second.b, a2);
+
+  const dL = second.l - first.l;
+  const dC = c2p - c1p;
+  let dh = 0;
+  if (c1p * c2p !== 0) {
+    dh = h2p - h1p;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1p * c2p) * Math.sin(dh / 2 / DEGREES);
+
+  const meanL = (first.l + second.l) / 2;
+  const meanCp = (c1p + c2p) / 2;
+  let meanHp = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    meanHp = Math.abs(h1p - h2p) > 180
+      ? (h1p + h2p + (h1p + h2p < 360 ? 360 : -360)) / 2
+      : (h1p + h2p) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos((meanHp - 30) / DEGREES)
+    + 0.24 * Math.cos((2 * meanHp) / DEGREES)
+    + 0.32 * Math.cos((3 * meanHp + 6) / DEGREES)
+    - 0.2 * Math.cos((4 * meanHp - 63) / DEGREES);
+  const lOffset = Math.pow(meanL - 50, 2);
+  const sL = 1 + (0.015 * lOffset) / Math.sqrt(20 + lOffset);
+  const sC = 1 + 0.045 * meanCp;
+  const sH = 1 + 0.015 * meanCp * t;
+  const meanCp7 = Math.pow(meanCp, 7);
+  const rT = -2 * Math.sqrt(meanCp7 / (meanCp7 + Math.pow(25, 7)))
+    * Math.sin((60 * Math.exp(-Math.pow((meanHp - 275) / 25, 2))) / DEGREES);
+
+  const l = dL / sL;
+  const c = dC / sC;
+  const h = dH / sH;
+  return Math.sqrt(l * l + c * c + h * h + rT * c * h);
+}
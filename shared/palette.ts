@@ -0,0 +1,188 @@
+import type { PaletteCategoryWithColors } from "./schema";
+import { deltaE2000, hexToLab } from "./color";
+
+// A finish as the color picker sees it
+export interface ColorItem {
+  id: string;
+  code: string;
+  name: string;
+  hexColor: string;
+  textureUrl?: string; // Tileable greyscale grain, tinted with hexColor
+  tags?: string[]; // Lowercase facets: material, gloss, indoor/outdoor
+  surcharge?: number; // Overrides the category's surcharge
+}
+
+export interface ColorCategory {
+  id: string;
+  name: string;
+  surcharge?: number; // Price added per part finished in this category
+  colors: ColorItem[];
+}
+
+// Facets shared by the seed finishes
+const PLATED = ["metal", "stainless steel", "plated", "gloss", "indoor"];
+const BRUSHED = ["metal", "stainless steel", "brushed", "indoor", "outdoor"];
+const POWDER_COAT = ["metal", "powder coat", "satin", "indoor", "outdoor"];
+const SOLID_WOOD = ["wood", "solid wood", "satin", "indoor"];
+const WOOD_LAMINATE = ["laminate", "wood pattern", "matte", "indoor"];
+const STONE_LAMINATE = ["laminate", "stone pattern", "matte", "indoor"];
+const MICROCRYSTALLINE = ["stone", "microcrystalline", "gloss", "indoor", "outdoor"];
+
+// Seed data for the palette tables. The server loads it on first start and
+// the editor falls back to it while /api/palette is unavailable.
+export const colorPalette: ColorCategory[] = [
+  {
+    id: "stainless-steel",
+    name: "Stainless Steel Finishing",
+    surcharge: 180,
+    colors: [
+      { id: "ss02", code: "SS02", name: "Hairline S/S", hexColor: "#C0C0C0", tags: BRUSHED, surcharge: 90 },
+      { id: "ss03", code: "SS03", name: "Rose Gold Plating", hexColor: "#B76E79", tags: PLATED },
+      { id: "ss04", code: "SS04", name: "Black Plating", hexColor: "#2C2C2C", tags: PLATED },
+      { id: "ss11", code: "SS11", name: "Brown Plating", hexColor: "#6B4423", tags: PLATED },
+      { id: "ss13", code: "SS13", name: "Champagne Plating", hexColor: "#F7E7CE", tags: PLATED },
+      { id: "ss25", code: "SS25", name: "Gold Bronze Plating", hexColor: "#CD7F32", tags: PLATED },
+    ]
+  },
+  {
+    id: "steel-aluminum-a",
+    name: "Steel & Aluminum Options A",
+    surcharge: 45,
+    colors: [
+      { id: "pc1", code: "PC1", name: "White", hexColor: "#F5F5F5", tags: POWDER_COAT },
+      { id: "pc2", code: "PC2", name: "Gold", hexColor: "#FFD700", tags: POWDER_COAT },
+      { id: "pc3", code: "PC3", name: "Silver", hexColor: "#C0C0C0", tags: POWDER_COAT },
+      { id: "pc4", code: "PC4", name: "Brown & Gold", hexColor: "#8B6914", tags: POWDER_COAT },
+      { id: "pc5", code: "PC5", name: "Champagne", hexColor: "#F7E7CE", tags: POWDER_COAT },
+      { id: "pc6", code: "PC6", name: "Crack Black", hexColor: "#1A1A1A", tags: [...POWDER_COAT, "textured"], surcharge: 60 },
+    ]
+  },
+  {
+    id: "steel-aluminum-b",
+    name: "Steel & Aluminum Options B",
+    surcharge: 45,
+    colors: [
+      { id: "pc7", code: "PC7", name: "Matt Black", hexColor: "#28282B", tags: ["metal", "powder coat", "matte", "indoor", "outdoor"] },
+      { id: "pc8", code: "PC8", name: "Coffee", hexColor: "#6F4E37", tags: POWDER_COAT },
+    ]
+  },
+  {
+    id: "wooden-finishing",
+    name: "Wooden Finishing",
+    surcharge: 150,
+    colors: [
+      { id: "sq1", code: "SQ1", name: "Black Walnut", hexColor: "#3A2F2F", textureUrl: "/textures/wood-grain.jpg", tags: SOLID_WOOD },
+      { id: "sq2", code: "SQ2", name: "Philippine Willow", hexColor: "#D4A574", textureUrl: "/textures/wood-grain.jpg", tags: SOLID_WOOD },
+      { id: "sq3", code: "SQ3", name: "Classic Teak", hexColor: "#B8860B", textureUrl: "/textures/wood-grain.jpg", tags: SOLID_WOOD },
+      { id: "sq4", code: "SQ4B", name: "Orchard Oak", hexColor: "#C19A6B", textureUrl: "/textures/wood-grain.jpg", tags: SOLID_WOOD },
+      { id: "sq5", code: "SQ5", name: "Classic Walnut", hexColor: "#5C4033", textureUrl: "/textures/wood-grain.jpg", tags: SOLID_WOOD },
+      { id: "sq6", code: "SQ6", name: "Warm White Pine", hexColor: "#F5DEB3", textureUrl: "/textures/wood-grain.jpg", tags: SOLID_WOOD },
+    ]
+  },
+  {
+    id: "hpl-wooden",
+    name: "HPL Laminate - Wooden Pattern",
+    surcharge: 30,
+    colors: [
+      { id: "t1", code: "D", name: "Earth Cedar", hexColor: "#8B7355", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t2", code: "D", name: "Aged Alameda", hexColor: "#A0826D", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t3", code: "NT", name: "Olive Wood", hexColor: "#6B5D4F", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t4", code: "NT", name: "Etremal Cedar", hexColor: "#B88A68", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t5", code: "T4211XT", name: "Ocean Vogue Wood", hexColor: "#5D4E37", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t6", code: "", name: "Alice Walnut", hexColor: "#664229", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t7", code: "", name: "Carbon Ash", hexColor: "#3E3E3E", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t8", code: "T", name: "Raw Oak", hexColor: "#B5A586", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t9", code: "", name: "Legno Silver Oak", hexColor: "#9B8B7E", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t10", code: "", name: "Natural Maple", hexColor: "#E3CDA4", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t11", code: "EB", name: "Driftage", hexColor: "#8B7D6B", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t12", code: "NT", name: "Ivory Elm", hexColor: "#F5E6D3", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t13", code: "GNT", name: "Dwan Oak", hexColor: "#C4A57B", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t14", code: "T", name: "Costa Nogal", hexColor: "#6F5843", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t15", code: "CK", name: "Ash Washing Maple", hexColor: "#D8CFC4", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t16", code: "NT", name: "Vosges Teak", hexColor: "#A0826D", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t17", code: "D", name: "Blacken Legno", hexColor: "#2F2F2F", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+      { id: "t18", code: "T5243", name: "Classic Walnut", hexColor: "#5C4033", textureUrl: "/textures/wood-grain.jpg", tags: WOOD_LAMINATE },
+    ]
+  },
+  {
+    id: "hpl-stone",
+    name: "HPL Laminate - Stone Pattern",
+    surcharge: 30,
+    colors: [
+      { id: "st1", code: "MBH", name: "Rust", hexColor: "#A0522D", textureUrl: "/textures/stone.jpg", tags: STONE_LAMINATE },
+      { id: "st2", code: "ST", name: "Coffee Ice Cream", hexColor: "#C4A57B", textureUrl: "/textures/stone.jpg", tags: STONE_LAMINATE },
+      { id: "st3", code: "ST", name: "Black Matt Slate", hexColor: "#36454F", textureUrl: "/textures/stone.jpg", tags: STONE_LAMINATE },
+      { id: "st4", code: "CD", name: "Marble", hexColor: "#E8E8E8", textureUrl: "/textures/marble.jpg", tags: STONE_LAMINATE },
+      { id: "st5", code: "ST", name: "Red Rust Stone", hexColor: "#8B4513", textureUrl: "/textures/stone.jpg", tags: STONE_LAMINATE },
+      { id: "st6", code: "MBH", name: "Ash Cement", hexColor: "#A9A9A9", textureUrl: "/textures/stone.jpg", tags: STONE_LAMINATE },
+      { id: "st7", code: "CD", name: "Lotana", hexColor: "#D3D3D3", textureUrl: "/textures/marble.jpg", tags: STONE_LAMINATE },
+      { id: "st8", code: "DCK", name: "Natural Stone", hexColor: "#BDB5A7", textureUrl: "/textures/stone.jpg", tags: STONE_LAMINATE },
+      { id: "st9", code: "T1332", name: "Goyo Ramblas", hexColor: "#8B7D6B", textureUrl: "/textures/stone.jpg", tags: STONE_LAMINATE },
+    ]
+  },
+  {
+    id: "nano-micro",
+    name: "Nano Microcrystalline Pattern",
+    surcharge: 220,
+    colors: [
+      { id: "gx1", code: "GKL", name: "Elegant Yellow", hexColor: "#F4E4C1", tags: MICROCRYSTALLINE },
+      { id: "gx2", code: "GTL", name: "Grey & White Marble", hexColor: "#D3D3D3", textureUrl: "/textures/marble.jpg", tags: MICROCRYSTALLINE },
+      { id: "gx3", code: "GTL", name: "Retro Grey", hexColor: "#808080", tags: MICROCRYSTALLINE },
+      { id: "gx4", code: "GTL", name: "Light Grey", hexColor: "#C0C0C0", tags: MICROCRYSTALLINE },
+      { id: "gx5", code: "GTL", name: "Dark Grey", hexColor: "#696969", tags: MICROCRYSTALLINE },
+      { id: "gx6", code: "GTL", name: "Coffee Marble", hexColor: "#8B7355", textureUrl: "/textures/marble.jpg", tags: MICROCRYSTALLINE },
+    ]
+  }
+];
+
+export interface PaletteEntry {
+  color: ColorItem;
+  category: ColorCategory;
+}
+
+// The finish a saved color came from, with its category. Colors without a
+// palette id are custom colors, even when their hex matches a finish.
+export function findPaletteEntry(categories: ColorCategory[], colorId: string | null | undefined): PaletteEntry | undefined {
+  if (!colorId) return undefined;
+  for (const category of categories) {
+    const color = category.colors.find(candidate => candidate.id === colorId);
+    if (color) return { color, category };
+  }
+  return undefined;
+}
+
+export interface PaletteMatch {
+  color: ColorItem;
+  category: ColorCategory;
+  distance: number; // CIEDE2000
+}
+
+// Palette finishes closest to a color, nearest first
+export function findNearestColors(categories: ColorCategory[], hex: string, limit = 3): PaletteMatch[] {
+  const target = hexToLab(hex);
+  return categories
+    .flatMap(category => category.colors.map(color => ({
+      color,
+      category,
+      distance: deltaE2000(target, hexToLab(color.hexColor))
+    })))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
+
+export function toColorCategories(categories: PaletteCategoryWithColors[]): ColorCategory[] {
+  return categories.map(category => ({
+    id: category.id,
+    name: category.name,
+    surcharge: Number(category.surcharge),
+    colors: category.colors.map(color => ({
+      id: color.id,
+      code: color.code,
+      name: color.name,
+      hexColor: color.hexColor,
+      textureUrl: color.textureUrl ?? undefined,
+      tags: color.tags,
+      surcharge: color.surcharge === null ? undefined : Number(color.surcharge)
+    }))
+  }));
+}
@@ -0,0 +1,80 @@
+import { findPaletteEntry, type ColorCategory } from "./palette";
+
+// Price estimate for a design: the base model's price plus the surcharge of
+// every finished part. The editor shows it live, and the server stores it
+// with each quote request (server/quotes.ts).
+
+export const PRICE_CURRENCY = "USD";
+
+// Only the fields the estimate needs, so both client layers and stored
+// color applications can be priced. Parts are priced by palette id alone.
+export interface PricedRegion {
+  id: string;
+  name: string;
+  colorId?: string | null;
+  area: number; // Mask pixel count
+}
+
+export interface PricedModel {
+  basePrice: number | string; // Numeric columns arrive as strings
+  areaWeighted: boolean;
+}
+
+export interface PriceLine {
+  regionId: string;
+  regionName: string;
+  finishName?: string; // Unset for custom colors, which carry no surcharge
+  code?: string;
+  surcharge: number; // The finish's full surcharge
+  weight: number; // Share of the surcharge charged for this part, 0-1
+  amount: number;
+}
+
+export interface PriceEstimate {
+  basePrice: number;
+  lines: PriceLine[];
+  finishTotal: number;
+  total: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * A finish's own surcharge wins over its category's. With an area-weighted
+ * model each part pays its share of the colored area, so the finishes add
+ * up to one full surcharge however finely the piece is split into parts.
+ */
+export function estimatePrice(
+  model: PricedModel | null | undefined,
+  regions: PricedRegion[],
+  categories: ColorCategory[]
+): PriceEstimate {
+  const basePrice = Number(model?.basePrice ?? 0);
+  const totalArea = regions.reduce((sum, region) => sum + Math.max(0, region.area), 0);
+  // Parts without a measured area split the surcharge evenly
+  const weightOf = (region: PricedRegion) => !model?.areaWeighted
+    ? 1
+    : totalArea > 0 ? Math.max(0, region.area) / totalArea : 1 / regions.length;
+
+  const lines = regions.map(region => {
+    const entry = findPaletteEntry(categories, region.colorId);
+    const surcharge = entry?.color.surcharge ?? entry?.category.surcharge ?? 0;
+    const weight = weightOf(region);
+    return {
+      regionId: region.id,
+      regionName: region.name,
+      finishName: entry?.color.name,
+      code: entry?.color.code || undefined,
+      surcharge,
+      weight,
+      amount: roundCents(surcharge * weight)
+    };
+  });
+
+  const finishTotal = roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+  return { basePrice, lines, finishTotal, total: roundCents(basePrice + finishTotal) };
+}
+
+export function formatPrice(value: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: PRICE_CURRENCY }).format(value);
+}
@@ -0,0 +1,106 @@
+import { hexToLab, labToRgb, rgbToLightness } from "./color";
+
+// Percentiles of the part's lightness that define its shading range. Using
+// percentiles rather than min/max keeps specular glints and stray dark
+// pixels from squashing the range.
+const LOW_PERCENTILE = 0.02;
+const HIGH_PERCENTILE = 0.98;
+
+// Shadows keep at least this much of the target's chroma so dark folds do
+// not turn grey, but are desaturated a little so they do not glow
+const MIN_SHADOW_CHROMA = 0.5;
+
+// Lightness swing (LAB L units) between the mid grey and the extremes of a
+// texture's grain
+const TEXTURE_DEPTH = 20;
+
+// One texture tile spans this fraction of the rendered image width at
+// scale 1, so grain looks the same in the preview and in full-size exports
+export const TEXTURE_TILE_FRACTION = 0.25;
+
+/**
+ * Recolors the covered pixels in place, keeping their shading.
+ *
+ * Pixels are moved to LAB, where the target swatch supplies hue and chroma.
+ * The part's own lightness is remapped around the target lightness: the
+ * average pixel lands on the swatch, and shadows and highlights keep their
+ * distance from it unless that would push them out of range, in which case
+ * that side is compressed. A light finish on a dark sofa therefore comes out
+ * light with its folds and weave intact, instead of the muddy grey a
+ * multiply fill produces.
+ *
+ * @param pixels RGB or RGBA bytes, `channels` per pixel
+ * @param coverage One byte per pixel, 255 = fully inside the part
+ * @param color Target swatch as hex
+ * @param opacity 0-1, how much of the recolor replaces the original
+ * @param detail Optional greyscale texture, one byte per pixel, already
+ *   mapped into place. Its grain offsets the target lightness around the
+ *   swatch, on top of the part's own shading.
+ */
+export function recolorPixels(
+  pixels: Uint8Array | Uint8ClampedArray,
+  channels: number,
+  coverage: Uint8Array | Uint8ClampedArray,
+  color: string,
+  opacity = 1,
+  detail?: Uint8Array | Uint8ClampedArray
+): void {
+  const pixelCount = coverage.length;
+  const lightness = new Float32Array(pixelCount);
+  const histogram = new Float64Array(101);
+  let total = 0;
+  let sum = 0;
+  let detailSum = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const weight = coverage[i];
+    if (weight === 0) continue;
+
+    const offset = i * channels;
+    const l = rgbToLightness(pixels[offset], pixels[offset + 1], pixels[offset + 2]);
+    lightness[i] = l;
+    histogram[Math.round(l)] += weight;
+    total += weight;
+    sum += l * weight;
+    if (detail) detailSum += detail[i] * weight;
+  }
+
+  if (total === 0) return;
+
+  const mean = sum / total;
+  const percentile = (fraction: number) => {
+    const threshold = total * fraction;
+    let seen = 0;
+    for (let bin = 0; bin < histogram.length; bin++) {
+      seen += histogram[bin];
+      if (seen >= threshold) return bin;
+    }
+    return 100;
+  };
+  const low = Math.min(percentile(LOW_PERCENTILE), mean);
+  const high = Math.max(percentile(HIGH_PERCENTILE), mean);
+
+  const target = hexToLab(color);
+  const detailMean = detailSum / total;
+  const shadowScale = mean - low > 0 ? Math.min(1, target.l / (mean - low)) : 1;
+  const highlightScale = high - mean > 0 ? Math.min(1, (100 - target.l) / (high - mean)) : 1;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const weight = coverage[i];
+    if (weight === 0) continue;
+
+    const delta = lightness[i] - mean;
+    const grain = detail ? (detail[i] - detailMean) / 128 * TEXTURE_DEPTH : 0;
+    const l = Math.min(100, Math.max(0, target.l + grain + delta * (delta < 0 ? shadowScale : highlightScale)));
+    const chroma = l < target.l && target.l > 0
+      ? Math.max(MIN_SHADOW_CHROMA, l / target.l)
+      : 1;
+    const rgb = labToRgb({ l, a: target.a * chroma, b: target.b * chroma });
+
+    const alpha = (weight / 255) * opacity;
+    const offset = i * channels;
+    pixels[offset] = Math.round(pixels[offset] + (rgb.r - pixels[offset]) * alpha);
+    pixels[offset + 1] = Math.round(pixels[offset + 1] + (rgb.g - pixels[offset + 1]) * alpha);
+    pixels[offset + 2] = Math.round(pixels[offset + 2] + (rgb.b - pixels[offset + 2]) * alpha);
+  }
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, jsonb, numeric, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,6 +9,7 @@ export const projects = pgTable("projects", {
   name: text("name").notNull(),
   description: text("description"),
   previewImageUrl: text("preview_image_url"),
+  baseModelId: varchar("base_model_id").references(() => baseModels.id, { onDelete: 'set null' }), // Priced product the design is based on
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -41,18 +42,53 @@ export const insertProjectImageSchema = createInsertSchema(projectImages).omit({
 export type InsertProjectImage = z.infer<typeof insertProjectImageSchema>;
 export type ProjectImage = typeof projectImages.$inferSelect;
 
+// Mask geometry in original image pixel coordinates
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+// Segmentation prompt point: label 1 includes the area, 0 excludes it
+export const segmentationPointSchema = z.object({
+  x: z.number().int().nonnegative(),
+  y: z.number().int().nonnegative(),
+  label: z.union([z.literal(0), z.literal(1)]),
+});
+
+export type SegmentationPoint = z.infer<typeof segmentationPointSchema>;
+
+export const boundingBoxSchema = z.object({
+  x: z.number().int().nonnegative(),
+  y: z.number().int().nonnegative(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
 // Segmentation masks table - stores AI-detected furniture parts
 export const segmentationMasks = pgTable("segmentation_masks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   imageId: varchar("image_id").notNull().references(() => projectImages.id, { onDelete: 'cascade' }),
   clickX: integer("click_x").notNull(),
   clickY: integer("click_y").notNull(),
-  maskData: text("mask_data").notNull(), // Base64 encoded mask PNG or compressed binary
-  boundingBox: jsonb("bounding_box").notNull(), // {x, y, width, height}
+  maskData: text("mask_data").notNull(), // Single-channel mask PNG path under uploads/ (masks/<uuid>.png)
+  boundingBox: jsonb("bounding_box").$type<BoundingBox>().notNull(), // {x, y, width, height}
+  area: integer("area").notNull().default(0), // Mask pixel count
+  centroid: jsonb("centroid").$type<MaskPoint>(), // {x, y}
+  points: jsonb("points").$type<SegmentationPoint[]>(), // Prompt points used to produce the mask
+  box: jsonb("box").$type<BoundingBox>(), // Optional box prompt {x, y, width, height}
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
-export const insertSegmentationMaskSchema = createInsertSchema(segmentationMasks).omit({
+export const insertSegmentationMaskSchema = createInsertSchema(segmentationMasks, {
+  points: z.array(segmentationPointSchema).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -65,9 +101,16 @@ export const colorApplications = pgTable("color_applications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
   maskId: varchar("mask_id").notNull().references(() => segmentationMasks.id, { onDelete: 'cascade' }),
+  colorId: varchar("color_id"), // Palette entry, when the color came from the palette
   fillHex: varchar("fill_hex", { length: 7 }).notNull(),
   opacity: numeric("opacity").notNull().default('0.8'),
   blendMode: varchar("blend_mode", { length: 16 }).notNull().default('multiply'),
+  regionName: text("region_name"), // User-facing name of the colored part, e.g. "Sofa Seat"
+  textureUrl: text("texture_url"), // Tileable grain for wood/stone finishes, tinted with fillHex
+  textureScale: numeric("texture_scale").notNull().default('1'),
+  textureRotation: integer("texture_rotation").notNull().default(0), // Degrees
+  sortOrder: integer("sort_order").notNull().default(0), // Position in the editor's layer stack, bottom first
+  visible: boolean("visible").notNull().default(true), // Hidden parts are left out of renders and quotes
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
@@ -79,11 +122,13 @@ export const insertColorApplicationSchema = createInsertSchema(colorApplications
 export type InsertColorApplication = z.infer<typeof insertColorApplicationSchema>;
 export type ColorApplication = typeof colorApplications.$inferSelect;
 
-// Recent colors table - stores user's recently used colors
+// Recent colors table - stores user's recently used colors. Rows without a
+// project feed the global list used before a project exists.
 export const recentColors = pgTable("recent_colors", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").references(() => projects.id, { onDelete: 'cascade' }),
   hex: varchar("hex", { length: 7 }).notNull(),
+  colorId: varchar("color_id"), // Palette entry, when the color came from the palette
   colorCode: varchar("color_code", { length: 16 }),
   colorName: text("color_name"),
   usedAt: timestamp("used_at").notNull().default(sql`now()`),
@@ -101,8 +146,8 @@ export type RecentColor = typeof recentColors.$inferSelect;
 export const canvasStates = pgTable("canvas_states", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }).unique(),
-  canvasJson: jsonb("canvas_json").notNull(), // Full Fabric.js canvas serialization
-  zoom: numeric("zoom").notNull().default('1'),
+  canvasJson: jsonb("canvas_json").notNull(), // Editor snapshot: image id, mask layers and selection
+  zoom: numeric("zoom").notNull().default('1'), // Zoom factor, 1 = 100%
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
@@ -113,3 +158,298 @@ export const insertCanvasStateSchema = createInsertSchema(canvasStates).omit({
 
 export type InsertCanvasState = z.infer<typeof insertCanvasStateSchema>;
 export type CanvasState = typeof canvasStates.$inferSelect;
+
+// Palette categories table - groups of finishes, e.g. "Wooden Finishing"
+export const paletteCategories = pgTable("palette_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  surcharge: numeric("surcharge").notNull().default('0'), // Price added per part finished in this category
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Prices are whole currency units with cents, never negative
+const priceSchema = z.coerce.number().min(0).max(1_000_000).transform(String);
+
+export const insertPaletteCategorySchema = createInsertSchema(paletteCategories, {
+  name: z.string().trim().min(1),
+  surcharge: priceSchema.optional(),
+}).omit({
+  createdAt: true,
+  updatedAt: true,
+}).partial({ id: true });
+
+export type InsertPaletteCategory = z.infer<typeof insertPaletteCategorySchema>;
+export type PaletteCategory = typeof paletteCategories.$inferSelect;
+
+// Palette colors table - finishes offered to customers. Retired finishes are
+// hidden from the picker but kept so saved designs can still name them.
+export const paletteColors = pgTable("palette_colors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  categoryId: varchar("category_id").notNull().references(() => paletteCategories.id, { onDelete: 'cascade' }),
+  code: varchar("code", { length: 32 }).notNull().default(''), // Supplier code; not unique
+  name: text("name").notNull(),
+  hexColor: varchar("hex_color", { length: 7 }).notNull(),
+  textureUrl: text("texture_url"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`), // Facets, e.g. "wood", "matte", "outdoor"
+  surcharge: numeric("surcharge"), // Overrides the category surcharge when set
+  sortOrder: integer("sort_order").notNull().default(0),
+  retired: boolean("retired").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Tags are compared case-insensitively, so they are stored lowercase
+export const paletteTagsSchema = z.array(z.string().trim().toLowerCase().min(1));
+
+export const insertPaletteColorSchema = createInsertSchema(paletteColors, {
+  name: z.string().trim().min(1),
+  hexColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a #RRGGBB color"),
+  tags: paletteTagsSchema.optional(),
+  surcharge: priceSchema.nullish(),
+}).omit({
+  createdAt: true,
+  updatedAt: true,
+}).partial({ id: true });
+
+export type InsertPaletteColor = z.infer<typeof insertPaletteColorSchema>;
+export type PaletteColor = typeof paletteColors.$inferSelect;
+
+// Base models table - the priced products designs start from, e.g. a sofa
+// frame. With areaWeighted, a finish's surcharge is shared between the parts
+// by their size instead of being charged in full for every part.
+export const baseModels = pgTable("base_models", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  basePrice: numeric("base_price").notNull().default('0'),
+  areaWeighted: boolean("area_weighted").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const insertBaseModelSchema = createInsertSchema(baseModels, {
+  name: z.string().trim().min(1),
+  basePrice: priceSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertBaseModel = z.infer<typeof insertBaseModelSchema>;
+export type BaseModel = typeof baseModels.$inferSelect;
+
+// Favorite colors table - palette finishes starred by designers
+export const favoriteColors = pgTable("favorite_colors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  colorId: varchar("color_id").notNull().unique(), // Palette entry id
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export type FavoriteColor = typeof favoriteColors.$inferSelect;
+
+// Color schemes table - named sets of finishes, e.g. "Hotel Lobby Set"
+export const colorSchemes = pgTable("color_schemes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Color scheme entries table - the finish for one region of a scheme. Mirrors
+// colorApplications so an entry can be applied to any part with a matching name.
+export const colorSchemeEntries = pgTable("color_scheme_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schemeId: varchar("scheme_id").notNull().references(() => colorSchemes.id, { onDelete: 'cascade' }),
+  regionName: text("region_name").notNull(), // Matched against part names, e.g. "Frame"
+  colorId: varchar("color_id"), // Palette entry, when the color came from the palette
+  fillHex: varchar("fill_hex", { length: 7 }).notNull(),
+  opacity: numeric("opacity").notNull().default('1'),
+  blendMode: varchar("blend_mode", { length: 16 }).notNull().default('recolor'),
+  textureUrl: text("texture_url"),
+  textureScale: numeric("texture_scale").notNull().default('1'),
+  textureRotation: integer("texture_rotation").notNull().default(0), // Degrees
+  sortOrder: integer("sort_order").notNull().default(0),
+});
+
+export const insertColorSchemeEntrySchema = createInsertSchema(colorSchemeEntries, {
+  regionName: z.string().trim().min(1),
+  fillHex: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a #RRGGBB color"),
+}).omit({
+  id: true,
+  schemeId: true,
+  sortOrder: true,
+});
+
+// A scheme is created together with its entries, listed in display order
+export const insertColorSchemeSchema = createInsertSchema(colorSchemes, {
+  name: z.string().trim().min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  entries: z.array(insertColorSchemeEntrySchema).min(1),
+});
+
+export type InsertColorSchemeEntry = z.infer<typeof insertColorSchemeEntrySchema>;
+export type InsertColorScheme = z.infer<typeof insertColorSchemeSchema>;
+export type ColorScheme = typeof colorSchemes.$inferSelect;
+export type ColorSchemeEntry = typeof colorSchemeEntries.$inferSelect;
+
+// Finish of one part as it was when a quote was requested
+export interface QuoteFinish {
+  regionName: string;
+  fillHex: string;
+  colorId?: string;
+  code?: string;
+  finishName?: string;
+  category?: string;
+  surcharge?: number; // Amount charged for this part when the quote was requested
+}
+
+export const QUOTE_STATUSES = ["new", "quoted", "accepted", "rejected"] as const;
+export type QuoteStatus = typeof QUOTE_STATUSES[number];
+
+// Quote requests table - a customer's request for pricing on a configuration.
+// The render, finishes and price estimate are captured on submission, so
+// later edits to the project or price list do not change what was quoted.
+export const quoteRequests = pgTable("quote_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  imageId: varchar("image_id").references(() => projectImages.id, { onDelete: 'set null' }),
+  customerName: text("customer_name").notNull(),
+  email: text("email").notNull(),
+  phone: varchar("phone", { length: 32 }),
+  company: text("company"),
+  quantity: integer("quantity").notNull().default(1),
+  message: text("message"),
+  status: varchar("status", { length: 16 }).$type<QuoteStatus>().notNull().default('new'),
+  renderUrl: text("render_url"), // JPEG under uploads/
+  finishes: jsonb("finishes").$type<QuoteFinish[]>().notNull().default(sql`'[]'::jsonb`),
+  baseModelName: text("base_model_name"), // Unset when the project had no base model
+  basePrice: numeric("base_price").notNull().default('0'),
+  estimatedTotal: numeric("estimated_total").notNull().default('0'), // Per unit, from shared/pricing.ts
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+export const insertQuoteRequestSchema = createInsertSchema(quoteRequests, {
+  customerName: z.string().trim().min(1, "Enter your name"),
+  email: z.string().trim().email("Enter a valid email address"),
+  phone: z.string().trim().max(32).nullish(),
+  company: z.string().trim().nullish(),
+  quantity: z.number().int().min(1).max(100000),
+  message: z.string().trim().max(2000).nullish(),
+}).omit({
+  id: true,
+  status: true,
+  renderUrl: true,
+  finishes: true,
+  baseModelName: true,
+  basePrice: true,
+  estimatedTotal: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateQuoteRequestSchema = z.object({
+  status: z.enum(QUOTE_STATUSES),
+});
+
+export type InsertQuoteRequest = z.infer<typeof insertQuoteRequestSchema>;
+export type QuoteRequest = typeof quoteRequests.$inferSelect;
+
+// POST /api/projects/:id/render body. The output keeps the photo's aspect
+// ratio and fits inside width × height; with neither it matches the photo.
+// Renders are never upscaled, and very large photos are scaled down to at
+// most MAX_RENDER_DIMENSION² pixels.
+export const RENDER_FORMATS = ["png", "jpeg", "webp"] as const;
+export const MAX_RENDER_DIMENSION = 4096;
+
+export const renderRequestSchema = z.object({
+  imageId: z.string().optional(), // Defaults to the project's latest image
+  format: z.enum(RENDER_FORMATS).default("png"),
+  width: z.number().int().positive().max(MAX_RENDER_DIMENSION).optional(),
+  height: z.number().int().positive().max(MAX_RENDER_DIMENSION).optional(),
+  quality: z.number().int().min(1).max(100).default(90), // JPEG and WebP only
+});
+
+export type RenderFormat = typeof RENDER_FORMATS[number];
+export type RenderRequest = z.infer<typeof renderRequestSchema>;
+
+// POST /api/projects/:id/quotation body
+export const quotationRequestSchema = z.object({
+  imageId: z.string().optional(), // Defaults to the project's latest image
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export type QuotationRequest = z.infer<typeof quotationRequestSchema>;
+
+// GET /api/projects/:id response - images with their masks and applied colors
+export type MaskWithColor = SegmentationMask & {
+  maskUrl: string;
+  colorApplication: ColorApplication | null;
+};
+
+export type ProjectImageWithMasks = ProjectImage & {
+  masks: MaskWithColor[];
+};
+
+export interface ProjectDetails {
+  project: Project;
+  images: ProjectImageWithMasks[];
+  colorApplications: ColorApplication[];
+}
+
+// GET /api/palette response - categories in display order with their colors
+export type PaletteCategoryWithColors = PaletteCategory & {
+  colors: PaletteColor[];
+};
+
+// One finish read from an imported CSV, ASE or JSON palette file
+export const importedColorSchema = z.object({
+  category: z.string().trim().min(1),
+  code: z.string().trim().max(32).default(""),
+  name: z.string().trim().min(1),
+  hexColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a #RRGGBB color"),
+  textureUrl: z.string().trim().min(1).nullish(),
+  tags: paletteTagsSchema.optional(), // Left unchanged on update when the file has none
+});
+
+export type ImportedColor = z.infer<typeof importedColorSchema>;
+
+export interface PaletteImportError {
+  row: number; // 1-based position among the file's entries, not counting a header
+  message: string;
+}
+
+// A supplier code used by more than one finish
+export interface PaletteDuplicateCode {
+  code: string;
+  rows: number[]; // Indexes into PaletteImportPreview.colors
+  existing: string[]; // Names of palette finishes outside the import that already use it
+}
+
+// POST /api/palette/import/preview response - what committing would change
+export interface PaletteImportPreview {
+  colors: ImportedColor[];
+  added: number[]; // Indexes into colors
+  updated: { index: number; before: PaletteColor }[];
+  unchanged: number[];
+  newCategories: string[];
+  duplicates: PaletteDuplicateCode[];
+  errors: PaletteImportError[];
+}
+
+// GET /api/schemes response - schemes with their entries in display order
+export type ColorSchemeWithEntries = ColorScheme & {
+  entries: ColorSchemeEntry[];
+};
+
+// GET /api/quotes response - newest first, with the project's current name
+export type QuoteRequestWithProject = QuoteRequest & {
+  projectName: string;
+};